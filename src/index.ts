@@ -58,10 +58,14 @@ import * as Cesium from "cesium"
   gizmo.bindObject(entity.model._primitive) // 切换到实体的 Model
   gizmo.bindObject(tileset) // 切换到 3DTileset
   
-  // 6. 解绑当前绑定对象
+  // 6. 同时绑定多个对象（共享枢轴）
+  gizmo.bindObjects([model, tileset])
+  gizmo.groupPivot = 'individual' // 旋转/缩放时各对象绕自身中心
+
+  // 7. 解绑当前绑定对象
   gizmo.bindObject()
   
-  // 7. 鼠标点击时拾取模型或3DTileset，绑定到Gizmo进行操作
+  // 8. 鼠标点击时拾取模型或3DTileset，绑定到Gizmo进行操作
   const handler = new Cesium.ScreenSpaceEventHandler(viewer.canvas)
   handler.setInputAction((e: Cesium.ScreenSpaceEventHandler.PositionedEvent) => {
     const res = viewer?.scene.pick(e.position)
@@ -79,60 +83,233 @@ export class TransformGizmo {
   // --- 核心属性 ---
   public viewer: Cesium.Viewer
   public object: Cesium.Model | Cesium.Cesium3DTileset | undefined
+  public objects: TransformObject[] = []
 
   // --- 几何参数 ---
   public center: Cesium.Cartesian3 | undefined
-  public axisLength: number = 120
-  private _width: number
-  private _centerRadius: number = 0.05
 
-  // --- 颜色配置 ---
-  public colors = {
-    X: Cesium.Color.fromCssColorString("#EA3323"),
-    Y: Cesium.Color.fromCssColorString("#4CE600"),
-    Z: Cesium.Color.fromCssColorString("#0036FF"),
+  // --- 外观样式 (通过 setStyle 修改) ---
+  private _style: ResolvedGizmoStyle = {
+    colors: {
+      X: Cesium.Color.fromCssColorString("#EA3323"),
+      Y: Cesium.Color.fromCssColorString("#4CE600"),
+      Z: Cesium.Color.fromCssColorString("#0036FF"),
+    },
+    neutralColor: Cesium.Color.WHITE,
+    highlightColor: Cesium.Color.YELLOW,
+    planeAlpha: 0.5,
+    fanAlpha: 0.2,
+    sweepAlpha: 0.35,
+    ghostAlpha: 0.6,
+    axisLength: 120,
+    axisWidth: 5,
+    ringWidth: 3,
+    centerRadius: 0.05,
+    arrowLength: 0.15,
+    arrowRadius: 0.04,
+    boxSize: 0.1,
+  }
+  private _styleDirty: boolean = false
+
+  // --- 吸附配置 (可在运行时直接修改) ---
+  public snap: Required<SnapOptions> = {
+    enabled: false,
+    translate: 1,
+    rotate: 15,
+    scale: 0.1,
+    modifier: "shift",
+  }
+
+  // --- 键盘快捷键配置 (可在运行时直接修改) ---
+  public keyboard: Required<KeyboardOptions> = {
+    enabled: false,
+    nudgeStep: 0.1,
+  }
+
+  // --- 测量标签配置 (可在运行时直接修改) ---
+  public measurement: MeasurementOptions = {
+    show: true,
+    font: "bold 13px sans-serif",
+    fillColor: Cesium.Color.WHITE,
+    backgroundColor: new Cesium.Color(0.1, 0.1, 0.1, 0.75),
+    pixelOffset: new Cesium.Cartesian2(24, 24),
   }
 
   // --- 状态控制 ---
   private _mode: TransformMode = "translate"
+  private _groupPivot: GroupPivot = "center"
+  private _pivot: PivotMode = "center"
+  private _customPivot:
+    { object: TransformObject; local: Cesium.Cartesian3 } | undefined
+  private _pivotEditing: boolean = false
+  private _lockedAxis: LockAxis | null = null
+  private _constraints: TransformConstraints = {}
+  private _space: GizmoSpace = "enu"
+  public translateMode: TranslateMode = "linear"
+  private _rotationStyle: RotationStyle = "quadrant"
   private _activeScale: Cesium.Cartesian3 = new Cesium.Cartesian3(1, 1, 1)
 
   // --- 图元资源 ---
   private _primitives: Cesium.PrimitiveCollection
   private _axisPrimitives: { [key: string]: Cesium.Primitive } = {}
   private _colliders: GizmoCollider[] = []
+  private _handleCache: Record<string, GizmoHandles> = {}
+  private _handleCollection: Cesium.PrimitiveCollection | undefined
+
+  // --- update 复用的临时对象与上一帧状态 ---
+  private _scratch = {
+    sphere: new Cesium.BoundingSphere(),
+    frame: new Cesium.Matrix4(),
+    scaleFrame: new Cesium.Matrix4(),
+    feedbackFrame: new Cesium.Matrix4(),
+    feedbackRotation: new Cesium.Matrix3(),
+    inverseFrame: new Cesium.Matrix4(),
+    rotation: new Cesium.Matrix3(),
+    quaternion: new Cesium.Quaternion(),
+    vector: new Cesium.Cartesian3(),
+    localCameraDir: new Cesium.Cartesian3(),
+    scaleCameraDir: new Cesium.Cartesian3(),
+    directions: {
+      X: Cesium.Cartesian3.UNIT_X,
+      Y: Cesium.Cartesian3.UNIT_Y,
+      Z: Cesium.Cartesian3.UNIT_Z,
+    },
+    arrowRotations: {
+      X: Cesium.Matrix3.fromRotationY(Cesium.Math.PI_OVER_TWO),
+      Y: Cesium.Matrix3.fromRotationX(-Cesium.Math.PI_OVER_TWO),
+      Z: Cesium.Matrix3.IDENTITY,
+    },
+  }
+  private _lastUpdate = {
+    width: 0,
+    height: 0,
+    center: new Cesium.Cartesian3(),
+    view: new Cesium.Matrix4(),
+    projection: new Cesium.Matrix4(),
+    objects: [] as Cesium.Matrix4[],
+  }
+  private _updateDirty: boolean = true
 
   // --- 交互事件 ---
-  private _handler: Cesium.ScreenSpaceEventHandler | undefined
+  private _inputBound: boolean = false
+  private _dragPointerId: number | undefined
+  private _touchPointers = new Set<number>()
   private _isDragging: boolean = false
   private _dragAxisName: string = ""
+  private _dragId: GizmoId | null = null
+  private _dragMode: TransformMode = "translate"
   private _dragPlane: Cesium.Plane | undefined
+  private _dragBottomOffset: number = 0
+  private _rotateAngle: number = 0
+  private _rotateRawAngle: number = 0
+  private _rotateLastVector = new Cesium.Cartesian3()
+  private _sweepPrimitive: Cesium.Primitive | undefined
+  private _sweepAxis = new Cesium.Cartesian3()
+  private _sweepStart = new Cesium.Cartesian3()
+  private _sweepEnd = new Cesium.Cartesian3()
+  private _sweepCount: number = 0
+  private _angleLabels: Cesium.LabelCollection | undefined
+  private _measurement: DragMeasurement | null = null
+  private _measurementLabels: Cesium.LabelCollection | undefined
+  private _ghostPrimitives: Cesium.PrimitiveCollection | undefined
+  private _ghostLine: Cesium.Polyline | undefined
+  private _snapModifierDown: boolean = false
+  private _depthModifierDown: boolean = false
+  public cancelOnEscape: boolean = true
+  public cancelOnRightClick: boolean = true
+  public coarseHitTolerance: number = 16
+  public followSurface: boolean = false
+  public depthModifier: SnapModifier = "ctrl"
+  public ghost: boolean = false
 
   // --- 交互计算中间量 ---
   private _dragStartPoint = new Cesium.Cartesian3()
   private _dragStartCenter = new Cesium.Cartesian3()
   private _dragVectorStart = new Cesium.Cartesian3()
+  private _dragFrame = new Cesium.Matrix4()
+  private _rotateTangent: Cesium.Cartesian3 | undefined
   private _initialModelMatrix = new Cesium.Matrix4()
+  private _initialModelMatrices: Cesium.Matrix4[] = []
+  private _initialPivots: Cesium.Cartesian3[] = []
+
+  // --- 历史记录 ---
+  public historyLimit: number = 100
+  private _undoStack: HistoryEntry[] = []
+  private _redoStack: HistoryEntry[] = []
+  // 连续微调合并到同一条记录：上一次微调的记录与时间
+  private _nudgeEntry: HistoryEntry | null = null
+  private _nudgeTime: number = 0
 
   // --- 高亮与视觉反馈 ---
   private _highlightedId: GizmoId | null = null
+  private _handleOpacity: Record<string, number> = {}
   private _outlineStage: Cesium.PostProcessStageComposite | undefined
   private _edgeDetectionStage: any | undefined
+  private _outline: OutlineOptions = {
+    enabled: true,
+    color: Cesium.Color.YELLOW,
+    thickness: 0.01,
+    showOn: ["bound"],
+  }
+  private _outlineSelection: TransformObject[] = []
+
+  // --- 事件 ---
+  private _events: Record<keyof GizmoEventMap, Cesium.Event> = {
+    dragStart: new Cesium.Event(),
+    drag: new Cesium.Event(),
+    dragEnd: new Cesium.Event(),
+    dragCancel: new Cesium.Event(),
+    hoverChange: new Cesium.Event(),
+    modeChange: new Cesium.Event(),
+    bind: new Cesium.Event(),
+    unbind: new Cesium.Event(),
+    history: new Cesium.Event(),
+  }
 
   // --- 钩子函数 ---
   onUpdate?: (e: TransformState | null) => void
+  onHistoryChange?: (e: HistoryState) => void
 
   constructor(options: Options) {
     const {
       viewer,
       object,
-      axisWidth = 5,
+      axisWidth,
+      style,
       mode = "translate",
+      groupPivot = "center",
+      pivot = "center",
+      space = "enu",
+      translateMode = "linear",
+      rotationStyle = "quadrant",
+      snap,
+      keyboard,
+      measurement,
+      constraints,
+      outline,
+      historyLimit = 100,
+      cancelOnEscape = true,
+      cancelOnRightClick = true,
+      coarseHitTolerance = 16,
+      followSurface = false,
+      depthModifier = "ctrl",
+      ghost = false,
       onUpdate,
+      onHistoryChange,
     } = options
     this.viewer = viewer
-    this._width = axisWidth
+    this.setStyle({ ...style, ...(axisWidth !== undefined && { axisWidth }) })
     this._mode = mode
+    this._groupPivot = groupPivot
+    this._pivot = pivot
+    this.space = space
+    this.translateMode = translateMode
+    this._rotationStyle = rotationStyle
+    if (snap) Object.assign(this.snap, snap)
+    if (keyboard) Object.assign(this.keyboard, keyboard)
+    if (measurement) Object.assign(this.measurement, measurement)
+    if (constraints) this._constraints = { ...constraints }
+    if (outline) this._outline = { ...this._outline, ...outline }
 
     this._primitives = new Cesium.PrimitiveCollection()
     this.viewer.scene.primitives.add(this._primitives)
@@ -143,1454 +320,4321 @@ export class TransformGizmo {
     this.viewer.scene.preUpdate.addEventListener(this.update, this)
 
     this.onUpdate = onUpdate
+    this.onHistoryChange = onHistoryChange
+    this.historyLimit = historyLimit
+    this.cancelOnEscape = cancelOnEscape
+    this.cancelOnRightClick = cancelOnRightClick
+    this.coarseHitTolerance = coarseHitTolerance
+    this.followSurface = followSurface
+    this.depthModifier = depthModifier
+    this.ghost = ghost
 
     if (object) {
       this.bindObject(object)
     }
   }
 
+  /**
+   * 是否可以撤销
+   */
+  get canUndo() {
+    return this.pruneHistory(this._undoStack).length > 0
+  }
+
+  /**
+   * 是否可以重做
+   */
+  get canRedo() {
+    return this.pruneHistory(this._redoStack).length > 0
+  }
+
+  /**
+   * 当前外观样式的副本
+   */
+  get style(): ResolvedGizmoStyle {
+    return { ...this._style, colors: { ...this._style.colors } }
+  }
+
+  /**
+   * 手柄在屏幕上的长度 (像素)
+   */
+  get axisLength() {
+    return this._style.axisLength
+  }
+  set axisLength(val: number) {
+    this._style.axisLength = val
+    this.markDirty()
+  }
+
+  /**
+   * X/Y/Z 轴颜色；整体赋值或为单个轴赋值 (colors.X = color) 会立即重建手柄，
+   * 直接修改颜色分量 (colors.X.red) 需再调用 setStyle
+   */
+  get colors(): Record<LockAxis, Cesium.Color> {
+    const colors = {} as Record<LockAxis, Cesium.Color>
+    ;(["X", "Y", "Z"] as const).forEach((axis) => {
+      Object.defineProperty(colors, axis, {
+        enumerable: true,
+        get: () => this._style.colors[axis],
+        set: (color: Cesium.Color) =>
+          this.setStyle({ colors: { [axis]: color } }),
+      })
+    })
+    return colors
+  }
+  set colors(val: Record<LockAxis, Cesium.Color>) {
+    this.setStyle({ colors: val })
+  }
+
+  /**
+   * 修改外观样式，未传入的字段保持不变
+   * 已绑定对象时立即重建手柄；拖拽过程中延迟到拖拽结束后重建
+   * @param style 样式
+   */
+  public setStyle(style: GizmoStyle) {
+    const { colors, ...rest } = style
+    const defined: Partial<ResolvedGizmoStyle> = Object.fromEntries(
+      Object.entries(rest).filter(([, value]) => value !== undefined)
+    )
+    Object.assign(this._style, defined)
+    if (colors) this._style.colors = { ...this._style.colors, ...colors }
+
+    this._styleDirty = true
+    if (this.object && !this._isDragging) this.createGizmo()
+  }
+
   get mode() {
     return this._mode
   }
   set mode(val: TransformMode) {
     if (this._mode !== val) {
+      const previousMode = this._mode
       this._mode = val
-      this.createGizmo()
+      if (this.objects.length > 0) this.createGizmo()
+      this.markDirty()
+      this.emit("modeChange", { ...this.createEvent(null), previousMode })
     }
   }
 
   /**
-   * 绑定操作对象
-   * @param object 要绑定的模型或3DTileset对象，如果不传入则解绑当前绑定对象
+   * 旋转手柄样式，仅作用于旋转模式；万能模式始终使用圆环
    */
-  public bindObject(object?: Cesium.Model | Cesium.Cesium3DTileset) {
-    // 1. 如果传入 null，则视为解绑
-    if (!object) {
-      this.detach()
-      return
-    }
+  get rotationStyle() {
+    return this._rotationStyle
+  }
+  set rotationStyle(val: RotationStyle) {
+    if (this._rotationStyle === val) return
+    this._rotationStyle = val
+    if (this.object && this.gizmoMode === "rotate") this.createGizmo()
+    this.markDirty()
+  }
 
-    // 2. 如果对象没有变化，直接返回
-    if (this.object === object) return
+  /**
+   * 手柄坐标系，缩放手柄始终沿对象自身坐标轴
+   * 拖拽过程中修改时，手柄立即按新坐标系绘制，本次拖拽仍沿开始时的轴向进行
+   */
+  get space() {
+    return this._space
+  }
+  set space(val: GizmoSpace) {
+    if (this._space === val) return
+    this._space = val
+    this.markDirty()
+  }
 
-    // 3. 清理旧状态 (停止拖拽、取消高亮等)
-    this.resetState()
+  /**
+   * 订阅事件，同一事件可注册多个监听器
+   * @param type 事件类型
+   * @param listener 监听函数
+   * @returns 取消订阅的函数
+   */
+  public on<K extends keyof GizmoEventMap>(
+    type: K,
+    listener: (e: GizmoEventMap[K]) => void
+  ): () => void {
+    return this._events[type].addEventListener(listener)
+  }
 
-    // 4. 绑定新模型
-    this.object = object
-    this.parseCenter()
+  /**
+   * 取消订阅事件
+   * @param type 事件类型
+   * @param listener 订阅时传入的监听函数
+   */
+  public off<K extends keyof GizmoEventMap>(
+    type: K,
+    listener: (e: GizmoEventMap[K]) => void
+  ) {
+    this._events[type].removeEventListener(listener)
+  }
 
-    // 5. 重新创建 TransformGizmo (位置更新)
-    this.createGizmo()
+  private emit<K extends keyof GizmoEventMap>(type: K, e: GizmoEventMap[K]) {
+    this._events[type].raiseEvent(e)
+  }
 
-    // 6. 更新描边选中对象
-    this.updateOutlineSelection()
+  /**
+   * 构造事件参数
+   * @param id 相关手柄，无则传 null
+   * @param startMatrix 拖拽开始时的模型矩阵，仅拖拽相关事件传入
+   */
+  private createEvent(
+    id: GizmoId | null,
+    startMatrix?: Cesium.Matrix4
+  ): GizmoEvent {
+    return {
+      id,
+      mode: this._mode,
+      object: this.object,
+      objects: [...this.objects],
+      startMatrix: startMatrix?.clone(),
+      currentMatrix: this.object?.modelMatrix.clone(),
+    }
+  }
 
-    // 7. 更新模型变换参数
-    this.onUpdate && this.onUpdate(this.getTransformState())
+  /**
+   * 枢轴点模式，决定旋转与缩放围绕的点及 Gizmo 的位置
+   * - center: 包围球中心
+   * - origin: 模型原点 (modelMatrix 的平移分量)
+   * - bottom: 包围体底部中心
+   * - custom: 自定义点，通过 setPivotPoint 或 pivotEditing 交互放置
+   */
+  get pivot() {
+    return this._pivot
+  }
+  set pivot(val: PivotMode) {
+    if (this._pivot === val) return
+    this._pivot = val
+    if (!this._isDragging && this.objects.length > 0) this.parseCenter()
+    this.markDirty()
   }
 
   /**
-   * 获取当前模型的变换状态
+   * 是否处于“仅移动枢轴点”模式
+   * 开启后显示平移手柄，拖拽只移动 Gizmo 而不移动对象，松开后枢轴点模式切换为 custom
    */
-  public getTransformState(): TransformState | null {
-    if (!this.object || !this.center) return null
+  get pivotEditing() {
+    return this._pivotEditing
+  }
+  set pivotEditing(val: boolean) {
+    if (this._pivotEditing === val) return
+    this.resetState()
+    this._pivotEditing = val
+    if (this.objects.length > 0) this.createGizmo()
+  }
 
-    let modelMatrix = this.object.modelMatrix
+  /**
+   * 设置自定义枢轴点，并将枢轴点模式切换为 custom
+   * 枢轴点以活动对象的局部坐标保存，会随对象一起移动
+   * @param position 世界坐标
+   */
+  public setPivotPoint(position: Cesium.Cartesian3) {
+    if (!this.object || this._isDragging) return
+    this.setCustomPivot(position)
+    this._pivot = "custom"
+    this.center = position.clone()
+  }
+
+  private setCustomPivot(position: Cesium.Cartesian3) {
+    if (!this.object) return
+    const inverse = Cesium.Matrix4.inverse(
+      this.object.modelMatrix,
+      new Cesium.Matrix4()
+    )
+    this._customPivot = {
+      object: this.object,
+      local: Cesium.Matrix4.multiplyByPoint(
+        inverse,
+        position,
+        new Cesium.Cartesian3()
+      ),
+    }
+  }
 
-    // --- A. 提取位置 (Translation) ---
-    const position = new Cesium.Cartesian3()
-    Cesium.Matrix4.getTranslation(modelMatrix, position)
+  /**
+   * 锁定的轴向，锁定后只显示并响应该轴的手柄，方向键微调也只沿该轴进行
+   */
+  get lockedAxis() {
+    return this._lockedAxis
+  }
+  set lockedAxis(val: LockAxis | null) {
+    if (this._lockedAxis === val) return
+    this._lockedAxis = val
+    this.applyAxisLock()
+  }
 
-    // --- B. 提取缩放 (Scale) ---
-    const scale = new Cesium.Cartesian3()
-    Cesium.Matrix4.getScale(modelMatrix, scale)
+  /**
+   * 变换约束，拖拽与 setPosition 等编程式修改都会经过约束
+   * 赋值时整体替换，被锁定轴向的手柄随即隐藏
+   */
+  get constraints(): TransformConstraints {
+    return this._constraints
+  }
+  set constraints(val: TransformConstraints) {
+    this._constraints = { ...val }
+    this.applyAxisLock()
+  }
+  /**
+   * 选中描边配置，未传入的字段保持不变
+   */
+  get outline(): OutlineOptions {
+    return { ...this._outline, showOn: [...(this._outline.showOn || [])] }
+  }
+  set outline(val: OutlineOptions) {
+    // 先用旧配置清空描边，避免切换适配器后残留选中状态
+    this.applyOutlineSelection([])
+    this._outline = { ...this._outline, ...val }
+    this.initOutlineStage()
+    this.updateOutlineSelection()
+  }
 
-    // [修复1] 缩放精度修约
-    const cleanScale = (val: number) => {
-      if (Math.abs(val - 1.0) < 0.00001) return 1.0
-      return parseFloat(val.toFixed(3))
+  /**
+   * 根据锁定轴向与约束显示/隐藏手柄，隐藏的手柄不参与拾取
+   */
+  private applyAxisLock() {
+    Object.keys(this._axisPrimitives).forEach((key) => {
+      let axis = key.split("_")[0]
+      if (key.startsWith("PLANE_")) axis = key.split("_")[1]
+      this._axisPrimitives[key].show =
+        (!this._lockedAxis || axis === this._lockedAxis) &&
+        !this.isHandleConstrained(key)
+    })
+  }
+
+  /**
+   * 手柄涉及的轴是否被约束锁定
+   * 视线外环、轨迹球与均匀缩放作用于全部轴，该类变换有任一锁定轴即锁定；
+   * 中心点平移会去除锁定轴上的分量，始终可用
+   */
+  private isHandleConstrained(key: string) {
+    if (this._pivotEditing) return false
+    const mode = this.gizmoMode
+    let type: TransformMode
+    let axes: string
+
+    if (key === "CENTER") {
+      type = mode === "universal" ? "translate" : mode
+      if (type === "translate") return false
+      axes = "XYZ"
+    } else if (key === "VIEW_rim") {
+      type = "rotate"
+      axes = "XYZ"
+    } else if (key.startsWith("PLANE_")) {
+      type = mode === "scale" ? "scale" : "translate"
+      axes = key.split("_")[1]
+    } else {
+      const [axis, part] = key.split("_")
+      axes = axis
+      if (part === "fan" || part === "rim") type = "rotate"
+      else if (part === "box" || mode === "scale") type = "scale"
+      else type = "translate"
     }
 
-    // --- C. 提取旋转 (Rotation) ---
-    const rotationMatrix = new Cesium.Matrix3()
-    Cesium.Matrix4.getMatrix3(modelMatrix, rotationMatrix)
+    const {
+      lockTranslate = [],
+      lockRotate = [],
+      lockScale = [],
+    } = this._constraints
+    const locks =
+      type === "translate"
+        ? lockTranslate
+        : type === "rotate"
+          ? lockRotate
+          : lockScale
+    return locks.some((axis) => axes.includes(axis))
+  }
 
-    const column0 = Cesium.Matrix3.getColumn(
-      rotationMatrix,
-      0,
-      new Cesium.Cartesian3()
-    )
-    const column1 = Cesium.Matrix3.getColumn(
-      rotationMatrix,
-      1,
+  /**
+   * 去除位移在锁定平移轴上的分量
+   * @param offset 世界坐标系下的位移
+   * @param frame Gizmo 坐标系
+   */
+  private constrainOffset(offset: Cesium.Cartesian3, frame: Cesium.Matrix4) {
+    const locks = this._constraints.lockTranslate
+    if (!locks || locks.length === 0 || this._pivotEditing) return offset
+
+    const local = Cesium.Matrix4.multiplyByPointAsVector(
+      Cesium.Matrix4.inverse(frame, new Cesium.Matrix4()),
+      offset,
       new Cesium.Cartesian3()
     )
-    const column2 = Cesium.Matrix3.getColumn(
-      rotationMatrix,
-      2,
+    if (locks.includes("X")) local.x = 0
+    if (locks.includes("Y")) local.y = 0
+    if (locks.includes("Z")) local.z = 0
+    return Cesium.Matrix4.multiplyByPointAsVector(
+      frame,
+      local,
       new Cesium.Cartesian3()
     )
-    Cesium.Cartesian3.normalize(column0, column0)
-    Cesium.Cartesian3.normalize(column1, column1)
-    Cesium.Cartesian3.normalize(column2, column2)
-    Cesium.Matrix3.setColumn(rotationMatrix, 0, column0, rotationMatrix)
-    Cesium.Matrix3.setColumn(rotationMatrix, 1, column1, rotationMatrix)
-    Cesium.Matrix3.setColumn(rotationMatrix, 2, column2, rotationMatrix)
-
-    // 2. 计算 ENU 参考系
-    const enuMatrix = Cesium.Transforms.eastNorthUpToFixedFrame(position)
-    const enuRotation = new Cesium.Matrix3()
-    Cesium.Matrix4.getMatrix3(enuMatrix, enuRotation)
-
-    // 3. 计算相对旋转
-    const enuRotationInverse = new Cesium.Matrix3()
-    Cesium.Matrix3.inverse(enuRotation, enuRotationInverse)
-
-    const localRotation = new Cesium.Matrix3()
-    Cesium.Matrix3.multiply(enuRotationInverse, rotationMatrix, localRotation)
-
-    // 4. 转换为欧拉角
-    const hpr = Cesium.HeadingPitchRoll.fromQuaternion(
-      Cesium.Quaternion.fromRotationMatrix(localRotation)
-    )
-
-    // [修复2] 角度清洗函数
-    const toDegrees = (rad: number) => {
-      if (Math.abs(rad) < 1e-10) rad = 0
-      let degree = Cesium.Math.toDegrees(rad)
-      degree = degree % 360
-      if (degree < 0) degree += 360
-      if (Math.abs(degree - 360) < 0.01) degree = 0
-      if (Math.abs(degree) < 0.01) degree = 0
-      return parseFloat(degree.toFixed(2))
-    }
-
-    const state = {
-      position: {
-        x: parseFloat(position.x.toFixed(2)),
-        y: parseFloat(position.y.toFixed(2)),
-        z: parseFloat(position.z.toFixed(2)),
-      },
-      rotation: {
-        heading: toDegrees(hpr.heading),
-        pitch: toDegrees(hpr.pitch),
-        roll: toDegrees(hpr.roll),
-      },
-      scale: {
-        x: cleanScale(scale.x),
-        y: cleanScale(scale.y),
-        z: cleanScale(scale.z),
-      },
-      modelMatrix: modelMatrix.toString().replaceAll(")\n(", ","),
-    }
-
-    return state
   }
 
-  //销毁Gizmo
-  public destroy() {
-    this.viewer.scene.preUpdate.removeEventListener(this.update, this)
-    this.viewer.scene.primitives.remove(this._primitives)
+  /**
+   * 对变换结果施加约束：先恢复锁定缩放轴、限制各轴缩放与约束点高度，约束点超出地理范围时整体退回变换前的状态
+   * 约束点为各对象在变换开始时的枢轴点随对象移动后的位置，中心点随活动对象的修正量一起移动
+   * @param previous 本次变换前各对象的模型矩阵
+   */
+  private enforceConstraints(previous: Cesium.Matrix4[]) {
+    const { minHeight, maxHeight, minScale, maxScale, lockScale, boundary } =
+      this._constraints
+    const limitScale =
+      minScale !== undefined ||
+      maxScale !== undefined ||
+      (lockScale !== undefined && lockScale.length > 0)
+    const limitHeight = minHeight !== undefined || maxHeight !== undefined
+    if (!limitScale && !limitHeight && !boundary) return
+
+    const activeIndex = this.object ? this.objects.indexOf(this.object) : -1
+    const intended =
+      activeIndex >= 0 ? this.getConstraintPoint(activeIndex) : undefined
+
+    this.objects.forEach((object, index) => {
+      if (limitScale) this.clampObjectScale(object, index, previous[index])
+      if (limitHeight) this.clampObjectHeight(object, index)
+    })
 
-    if (this._outlineStage) {
-      this.viewer.scene.postProcessStages.remove(this._outlineStage)
+    if (
+      boundary &&
+      this.objects.some(
+        (_, index) => !this.isInsideBoundary(this.getConstraintPoint(index))
+      )
+    ) {
+      this.objects.forEach((object, index) => {
+        if (previous[index])
+          Cesium.Matrix4.clone(previous[index], object.modelMatrix)
+      })
     }
 
-    if (this._handler) {
-      this._handler.destroy()
-      this._handler = undefined
+    if (intended && this.center) {
+      const correction = Cesium.Cartesian3.subtract(
+        this.getConstraintPoint(activeIndex),
+        intended,
+        new Cesium.Cartesian3()
+      )
+      this.center = Cesium.Cartesian3.add(
+        this.center,
+        correction,
+        new Cesium.Cartesian3()
+      )
     }
   }
 
   /**
-   * 解绑当前对象，隐藏 TransformGizmo
+   * 对象在变换开始时的枢轴点，随对象当前模型矩阵移动后的位置
    */
-  detach() {
-    this.resetState()
-    this.object = null as any // 临时处理类型，或者修改属性定义允许为 null
-    this.center = undefined
+  private getConstraintPoint(index: number) {
+    const object = this.objects[index]
+    const delta = Cesium.Matrix4.multiply(
+      object.modelMatrix,
+      Cesium.Matrix4.inverse(
+        this._initialModelMatrices[index],
+        new Cesium.Matrix4()
+      ),
+      new Cesium.Matrix4()
+    )
+    return Cesium.Matrix4.multiplyByPoint(
+      delta,
+      this._initialPivots[index],
+      new Cesium.Cartesian3()
+    )
+  }
 
-    // 清空 TransformGizmo
-    this._primitives.removeAll()
-    this._colliders = []
-    this._axisPrimitives = {}
+  /**
+   * 锁定的缩放轴恢复为变换前的缩放，各轴缩放再限制在 minScale ~ maxScale 之间，在对象自身坐标系下绕约束点缩放
+   * @param previous 变换前的模型矩阵
+   */
+  private clampObjectScale(
+    object: TransformObject,
+    index: number,
+    previous: Cesium.Matrix4 | undefined
+  ) {
+    const { minScale, maxScale, lockScale = [] } = this._constraints
+    const getLimit = (
+      limit: number | Partial<ScaleValue> | undefined,
+      component: "x" | "y" | "z"
+    ) => (typeof limit === "number" ? limit : limit?.[component])
+
+    const components = this.decomposeMatrix(this.getObjectMatrix(object))
+    if (!components) return
+    const previousComponents = previous
+      ? this.decomposeMatrix(this.getObjectMatrix(object, previous))
+      : undefined
+    const factors = new Cesium.Cartesian3(1, 1, 1)
+    let changed = false
+    ;(["x", "y", "z"] as const).forEach((component) => {
+      const length = Math.abs(components.scale[component])
+      const locked =
+        previousComponents &&
+        lockScale.includes(component.toUpperCase() as LockAxis)
+      const target = Cesium.Math.clamp(
+        locked ? Math.abs(previousComponents.scale[component]) : length,
+        getLimit(minScale, component) ?? 0,
+        getLimit(maxScale, component) ?? Number.POSITIVE_INFINITY
+      )
+      factors[component] = target / length
+      if (target !== length) changed = true
+    })
+    if (!changed) return
 
-    // 清空描边
-    if (this._edgeDetectionStage) {
-      this._edgeDetectionStage.selected = []
-    }
+    this.scaleInObjectFrame(
+      object,
+      object.modelMatrix.clone(),
+      this.getConstraintPoint(index),
+      factors
+    )
   }
 
   /**
-   * 更新描边逻辑封装
+   * 将约束点的椭球高度限制在 minHeight ~ maxHeight 之间，沿当地铅垂方向平移
    */
-  private updateOutlineSelection() {
-    if (!this._edgeDetectionStage) return
+  private clampObjectHeight(object: TransformObject, index: number) {
+    const { minHeight, maxHeight } = this._constraints
+    const point = this.getConstraintPoint(index)
+    const cartographic = Cesium.Cartographic.fromCartesian(point)
+    if (!cartographic) return
+
+    const height = Cesium.Math.clamp(
+      cartographic.height,
+      minHeight ?? Number.NEGATIVE_INFINITY,
+      maxHeight ?? Number.POSITIVE_INFINITY
+    )
+    if (height === cartographic.height) return
 
-    if (
-      this.object instanceof Cesium.Model ||
-      this.object instanceof Cesium.Cesium3DTileset
-    ) {
-      this._edgeDetectionStage.selected = [this.object]
-    } else {
-      // 如果是 Cartesian3 (点) 或者其他，不进行描边
-      this._edgeDetectionStage.selected = []
-    }
+    const up = Cesium.Ellipsoid.WGS84.geodeticSurfaceNormal(
+      point,
+      new Cesium.Cartesian3()
+    )
+    const offset = Cesium.Cartesian3.multiplyByScalar(
+      up,
+      height - cartographic.height,
+      new Cesium.Cartesian3()
+    )
+    Cesium.Matrix4.multiply(
+      Cesium.Matrix4.fromTranslation(offset),
+      object.modelMatrix,
+      object.modelMatrix
+    )
   }
 
   /**
-   * 内部状态重置
+   * 点是否位于约束的地理范围内：矩形按弧度判断，多边形按经纬度 (度) 射线法判断
    */
-  private resetState() {
-    this._isDragging = false
-    this._dragAxisName = ""
-    this._dragPlane = undefined
-    this._activeScale = new Cesium.Cartesian3(1, 1, 1)
-
-    // 清除 TransformGizmo 高亮
-    this.restoreHighlight()
-    this._highlightedId = null
+  private isInsideBoundary(point: Cesium.Cartesian3) {
+    const boundary = this._constraints.boundary
+    const cartographic = Cesium.Cartographic.fromCartesian(point)
+    if (!boundary || !cartographic) return true
 
-    // 恢复相机控制 (防止在拖拽中途切换导致相机锁死)
-    const controller = this.viewer.scene.screenSpaceCameraController
-    if (!controller.enableRotate) controller.enableRotate = true
-    if (!controller.enableTranslate) controller.enableTranslate = true
+    if (boundary instanceof Cesium.Rectangle) {
+      return Cesium.Rectangle.contains(boundary, cartographic)
+    }
+    if (boundary.length < 3) return true
+
+    const x = Cesium.Math.toDegrees(cartographic.longitude)
+    const y = Cesium.Math.toDegrees(cartographic.latitude)
+    let inside = false
+    for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+      const a = boundary[i]
+      const b = boundary[j]
+      if (
+        a.latitude > y !== b.latitude > y &&
+        x <
+          ((b.longitude - a.longitude) * (y - a.latitude)) /
+            (b.latitude - a.latitude) +
+            a.longitude
+      ) {
+        inside = !inside
+      }
+    }
+    return inside
   }
 
-  private parseCenter() {
+  /**
+   * 沿当前 Gizmo 坐标轴平移对象（编辑枢轴点时只移动枢轴点）
+   * @param axis 轴向
+   * @param distance 平移距离（米），可为负
+   */
+  public nudge(axis: LockAxis, distance: number) {
+    if (!this.center || !this.object || this._isDragging) return
     if (
-      this.object instanceof Cesium.Cesium3DTileset ||
-      this.object instanceof Cesium.Model
+      !this._pivotEditing &&
+      this._constraints.lockTranslate?.includes(axis)
     ) {
-      this.center = this.object.boundingSphere.center.clone()
-    } else {
-      this.center = this.object
+      return
     }
-  }
 
-  private initOutlineStage() {
-    if (
-      !Cesium.PostProcessStageLibrary.isSilhouetteSupported(this.viewer.scene)
-    ) {
-      console.warn("当前环境不支持模型描边 (Silhouette)")
+    // 与当前显示的手柄一致：缩放模式下手柄沿对象自身坐标轴
+    const frame = this.getGizmoFrame(this.center, this.gizmoMode)
+    const column = Cesium.Matrix4.getColumn(
+      frame,
+      { X: 0, Y: 1, Z: 2 }[axis],
+      new Cesium.Cartesian4()
+    )
+    const direction = Cesium.Cartesian3.normalize(
+      new Cesium.Cartesian3(column.x, column.y, column.z),
+      new Cesium.Cartesian3()
+    )
+    const offset = Cesium.Cartesian3.multiplyByScalar(
+      direction,
+      distance,
+      new Cesium.Cartesian3()
+    )
+    const newCenter = this.getTranslatedCenter(this.center, offset)
+
+    if (this._pivotEditing) {
+      this.setCustomPivot(newCenter)
+      this._pivot = "custom"
+      this.center = newCenter
+      this.markDirty()
       return
     }
-    const edgeDetection =
-      Cesium.PostProcessStageLibrary.createEdgeDetectionStage()
-    edgeDetection.uniforms.color = Cesium.Color.YELLOW
-    edgeDetection.uniforms.length = 0.01
-    // @ts-ignore
-    edgeDetection.selected = []
-    this._edgeDetectionStage = edgeDetection
 
-    this._outlineStage = Cesium.PostProcessStageLibrary.createSilhouetteStage([
-      edgeDetection,
-    ])
-    this.viewer.scene.postProcessStages.add(this._outlineStage)
+    this.captureInitialState()
+    this.center = newCenter
+    this.applyTranslation(newCenter)
+    this.markDirty()
+    this.recordHistory(true)
+    this.onUpdate && this.onUpdate(this.getTransformState())
   }
 
-  // ==================================================================================
-  //                                  1. 几何体与碰撞体创建
-  // ==================================================================================
+  /**
+   * 将每个绑定对象沿当地铅垂方向移动，使其底部落在下方的地形或 3D Tiles 表面上
+   * 表面采样为异步操作，采样失败的对象保持不动
+   * @returns 是否有对象发生了移动
+   */
+  public async dropToGround() {
+    if (!this.center || !this.object || this._isDragging) return false
 
-  private createGizmo() {
-    this._primitives.removeAll()
-    this._axisPrimitives = {}
-    this._colliders = []
+    const objects = [...this.objects]
+    const bottoms = objects.map((object) => this.getObjectBottom(object))
+    const cartographics = bottoms.map((bottom) =>
+      Cesium.Cartographic.fromCartesian(bottom)
+    )
+    const heights = await this.sampleSurfaceHeightsMostDetailed(cartographics)
 
-    if (this._mode === "translate") {
-      this.createTranslationGizmo()
-    } else if (this._mode === "rotate") {
-      this.createRotationGizmo()
-    } else if (this._mode === "scale") {
-      this.createScaleGizmo()
+    // 采样期间绑定对象可能已变化或开始了拖拽
+    if (
+      this._isDragging ||
+      objects.length !== this.objects.length ||
+      objects.some((object, index) => object !== this.objects[index])
+    ) {
+      return false
     }
-    this.createCenterGizmo()
-  }
 
-  private getAppearance(color: Cesium.Color, isLine: boolean = false) {
-    const renderState = {
-      depthTest: { enabled: false }, // 禁用深度测试，透视显示
-      depthMask: false,
-      cull: { enabled: false }, // 双面渲染
-      blending: Cesium.BlendingState.ALPHA_BLEND,
-    }
-    if (isLine) {
-      return new Cesium.PolylineColorAppearance({
-        translucent: true,
-        renderState: renderState,
-      })
+    this.captureInitialState()
+    const frame = this.getGizmoFrame(this.center)
+    const offsets = objects.map(() => new Cesium.Cartesian3())
+    let moved = false
+    objects.forEach((object, index) => {
+      const height = heights[index]
+      const cartographic = cartographics[index]
+      if (height === undefined || !cartographic) return
+
+      const up = Cesium.Ellipsoid.WGS84.geodeticSurfaceNormal(
+        bottoms[index],
+        new Cesium.Cartesian3()
+      )
+      // 铅垂位移同样受平移锁定约束
+      const offset = Cesium.Cartesian3.clone(
+        this.constrainOffset(
+          Cesium.Cartesian3.multiplyByScalar(
+            up,
+            height - cartographic.height,
+            up
+          ),
+          frame
+        ),
+        offsets[index]
+      )
+      if (Cesium.Cartesian3.equals(offset, Cesium.Cartesian3.ZERO)) return
+      Cesium.Matrix4.multiply(
+        Cesium.Matrix4.fromTranslation(offset),
+        this._initialModelMatrices[index],
+        object.modelMatrix
+      )
+      moved = true
+    })
+    if (!moved) return false
+
+    // 包围体在下一帧才会更新，按 parseCenter 的规则用各对象的位移推算新的中心点
+    if (this.pivotFollowsActive) {
+      const offset = offsets[objects.indexOf(this.object)]
+      Cesium.Cartesian3.add(this.center, offset, this.center)
+    } else if (this._pivot === "center") {
+      const sphere = Cesium.BoundingSphere.fromBoundingSpheres(
+        objects.map((object, index) => {
+          const sphere = object.boundingSphere.clone()
+          Cesium.Cartesian3.add(sphere.center, offsets[index], sphere.center)
+          return sphere
+        })
+      )
+      this.center = sphere.center.clone()
     } else {
-      return new Cesium.PerInstanceColorAppearance({
-        translucent: true,
-        flat: true,
-        renderState: renderState,
-      })
+      // 中心点为各对象枢轴点的平均值，未移动的对象位移为 0
+      const sum = new Cesium.Cartesian3()
+      offsets.forEach((offset) => Cesium.Cartesian3.add(sum, offset, sum))
+      Cesium.Cartesian3.divideByScalar(sum, objects.length, sum)
+      this.center = Cesium.Cartesian3.add(
+        this.center,
+        sum,
+        new Cesium.Cartesian3()
+      )
     }
+    this.enforceConstraints(this._initialModelMatrices)
+    this.recordHistory()
+    this.onUpdate && this.onUpdate(this.getTransformState())
+    return true
   }
 
-  private addCollider(
-    key: string,
-    id: GizmoId,
-    min: Cesium.Cartesian3,
-    max: Cesium.Cartesian3,
-    type: ColliderType = "BOX",
-    extraParams: any = {}
-  ) {
-    this._colliders.push({
-      id,
-      type,
-      localMin: min,
-      localMax: max,
-      primitiveKey: key,
-      ...extraParams,
-    })
+  /**
+   * 拾取表面高度时需要排除的对象：绑定对象自身与 Gizmo 手柄
+   */
+  private getSurfaceExcludes(): object[] {
+    return [...this.objects, ...Object.values(this._axisPrimitives)]
   }
 
-  private createCenterGizmo() {
-    // 保持不透明白色
-    const color = Cesium.Color.WHITE.clone()
-    const type = this._mode === "scale" ? "scale" : "center"
-    const id = { axis: "CENTER", type: type, name: "CENTER" } as GizmoId
-
-    const radius = this._centerRadius
-    const geometry = new Cesium.EllipsoidGeometry({
-      radii: new Cesium.Cartesian3(radius, radius, radius),
-      vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
-    })
+  /**
+   * 同步采样表面高度，优先 3D Tiles 等场景几何体，其次地形
+   */
+  private sampleSurfaceHeight(cartographic: Cesium.Cartographic) {
+    const scene = this.viewer.scene
+    if (scene.sampleHeightSupported) {
+      const height = scene.sampleHeight(cartographic, this.getSurfaceExcludes())
+      if (height !== undefined) return height
+    }
+    return scene.globe?.getHeight(cartographic)
+  }
 
-    const instance = new Cesium.GeometryInstance({
-      geometry: geometry,
-      modelMatrix: Cesium.Matrix4.IDENTITY,
-      attributes: {
-        color: Cesium.ColorGeometryInstanceAttribute.fromColor(color),
-      },
-      id: id,
-    })
+  /**
+   * 以最高精度异步采样表面高度，优先 3D Tiles 等场景几何体，其次地形
+   */
+  private async sampleSurfaceHeightsMostDetailed(
+    cartographics: Cesium.Cartographic[]
+  ) {
+    const scene = this.viewer.scene
+    const heights: (number | undefined)[] = cartographics.map(() => undefined)
+
+    if (scene.sampleHeightSupported) {
+      // 瓦片加载失败等原因导致采样失败时，退回地形采样
+      const results = await scene
+        .sampleHeightMostDetailed(
+          cartographics.map((c) => c.clone()),
+          this.getSurfaceExcludes()
+        )
+        .catch(() => undefined)
+      results?.forEach((result, index) => {
+        if (result && result.height !== undefined) {
+          heights[index] = result.height
+        }
+      })
+    }
 
-    const primitive = new Cesium.Primitive({
-      geometryInstances: [instance],
-      appearance: this.getAppearance(color, false),
-      asynchronous: false,
-    })
+    const missing = cartographics.filter(
+      (_, index) => heights[index] === undefined
+    )
+    if (missing.length > 0 && scene.globe) {
+      const terrain = await Cesium.sampleTerrainMostDetailed(
+        scene.globe.terrainProvider,
+        missing.map((c) => c.clone())
+      ).catch(() => undefined)
+      let i = 0
+      heights.forEach((height, index) => {
+        if (height !== undefined) return
+        heights[index] = terrain?.[i++]?.height
+      })
+    }
+    return heights
+  }
 
-    this._primitives.add(primitive)
-    this._axisPrimitives["CENTER"] = primitive
+  /**
+   * 当前用于构建手柄与处理交互的模式，编辑枢轴点时固定为平移
+   */
+  private get gizmoMode(): TransformMode {
+    return this._pivotEditing ? "translate" : this._mode
+  }
 
-    this.addCollider(
-      "CENTER",
-      id,
-      new Cesium.Cartesian3(-radius, -radius, -radius),
-      new Cesium.Cartesian3(radius, radius, radius),
-      "BOX"
-    )
+  /**
+   * 多选时的公共枢轴
+   * - center: 所有对象合并包围球的中心
+   * - active: 活动对象（最后一个绑定的对象）的中心
+   * - individual: 旋转与缩放时每个对象绕自身中心变换
+   */
+  get groupPivot() {
+    return this._groupPivot
+  }
+  set groupPivot(val: GroupPivot) {
+    if (this._groupPivot === val) return
+    this._groupPivot = val
+    if (!this._isDragging && this.objects.length > 0) this.parseCenter()
+    this.markDirty()
   }
 
-  private createTranslationGizmo() {
-    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
-    const colors = this.colors
-    const directions = {
-      X: new Cesium.Cartesian3(1, 0, 0),
-      Y: new Cesium.Cartesian3(0, 1, 0),
-      Z: new Cesium.Cartesian3(0, 0, 1),
+  /**
+   * 绑定操作对象
+   * @param object 要绑定的模型或3DTileset对象，如果不传入则解绑当前绑定对象
+   */
+  public bindObject(object?: Cesium.Model | Cesium.Cesium3DTileset) {
+    // 如果传入 null，则视为解绑
+    if (!object) {
+      this.detach()
+      return
     }
+    this.bindObjects([object])
+  }
 
-    axes.forEach((axis) => {
-      const gizmoId = {
-        axis,
-        type: "translate",
-        name: `TRANS_${axis}`,
-      } as GizmoId
-      const arrowLength = 0.15
-      const lineLength = 1.0
+  /**
+   * 同时绑定多个操作对象，最后一个对象作为活动对象
+   * （getTransformState、事件中的 object 均指活动对象）
+   * @param objects 要绑定的模型或3DTileset对象列表，传入空数组则解绑
+   */
+  public bindObjects(objects: TransformObject[]) {
+    // 1. 去重，空列表视为解绑
+    const list = objects.filter(
+      (object, index) => object && objects.indexOf(object) === index
+    )
+    if (list.length === 0) {
+      this.detach()
+      return
+    }
 
-      // 轴线避让中心球
-      const startPoint = Cesium.Cartesian3.multiplyByScalar(
-        directions[axis],
-        this._centerRadius,
-        new Cesium.Cartesian3()
-      )
+    // 2. 如果对象没有变化，直接返回
+    if (
+      list.length === this.objects.length &&
+      list.every((object, index) => this.objects[index] === object)
+    ) {
+      return
+    }
 
-      const lineInstance = new Cesium.GeometryInstance({
-        geometry: new Cesium.PolylineGeometry({
-          positions: [startPoint, directions[axis]],
-          width: this._width,
-          vertexFormat: Cesium.PolylineColorAppearance.VERTEX_FORMAT,
-          arcType: Cesium.ArcType.NONE,
-        }),
-        attributes: {
-          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
-        },
-        id: gizmoId,
-      })
+    // 3. 清理旧状态 (停止拖拽、取消高亮等)
+    this.resetState()
+    if (this.object) this.emit("unbind", this.createEvent(null))
 
-      const arrowInstance = new Cesium.GeometryInstance({
-        geometry: new Cesium.CylinderGeometry({
-          length: arrowLength,
-          topRadius: 0,
-          bottomRadius: 0.04,
-          vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
-        }),
-        modelMatrix: Cesium.Matrix4.IDENTITY,
-        attributes: {
-          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
-        },
-        id: gizmoId,
-      })
+    // 4. 绑定新模型
+    this.objects = list
+    this.object = list[list.length - 1]
+    this.parseCenter()
 
-      const pLine = new Cesium.Primitive({
-        geometryInstances: [lineInstance],
-        appearance: this.getAppearance(colors[axis], true),
-        asynchronous: false,
-      })
-      const pArrow = new Cesium.Primitive({
-        geometryInstances: [arrowInstance],
-        appearance: this.getAppearance(colors[axis], false),
-        asynchronous: false,
-      })
+    // 5. 重新创建 TransformGizmo (位置更新)
+    this.createGizmo()
 
-      this._primitives.add(pLine)
-      this._primitives.add(pArrow)
+    // 6. 更新描边选中对象
+    this.updateOutlineSelection()
 
-      const keyLine = `${axis}_line`
-      const keyArrow = `${axis}_arrow`
-      this._axisPrimitives[keyLine] = pLine
-      this._axisPrimitives[keyArrow] = pArrow
+    // 7. 更新模型变换参数
+    this.onUpdate && this.onUpdate(this.getTransformState())
+    this.emit("bind", this.createEvent(null))
+  }
 
-      const colliderWidth = 0.1
-      const totalLen = lineLength + arrowLength
+  /**
+   * 获取当前模型的变换状态
+   * 位置为枢轴点 (center) 的地心坐标，姿态角相对枢轴点处的当地东北天坐标系，与各设置方法使用相同的基准
+   */
+  public getTransformState(): TransformState | null {
+    if (!this.object || !this.center) return null
 
-      let min = new Cesium.Cartesian3()
-      let max = new Cesium.Cartesian3()
+    let modelMatrix = this.object.modelMatrix
 
-      if (axis === "X") {
-        min = new Cesium.Cartesian3(0, -colliderWidth, -colliderWidth)
-        max = new Cesium.Cartesian3(totalLen, colliderWidth, colliderWidth)
-      } else if (axis === "Y") {
-        min = new Cesium.Cartesian3(-colliderWidth, 0, -colliderWidth)
-        max = new Cesium.Cartesian3(colliderWidth, totalLen, colliderWidth)
-      } else {
-        min = new Cesium.Cartesian3(-colliderWidth, -colliderWidth, 0)
-        max = new Cesium.Cartesian3(colliderWidth, colliderWidth, totalLen)
-      }
-      this.addCollider(keyLine, gizmoId, min, max, "BOX")
-    })
+    // --- A. 提取位置 (枢轴点) ---
+    // 对象原点可能位于地心 (坐标直接写在顶点中的 3DTileset)，不适合作为位置基准
+    const position = this.center
 
-    const start = 0.15
-    const end = 0.45
-    const thickness = 0.01
+    // 按 TRS 分解读取对象自身坐标轴上的缩放，非均匀缩放后仍可精确读回
+    const components = this.decomposeMatrix(this.getObjectMatrix(this.object))
 
-    const planes = [
-      {
-        axis: "XY" as const,
-        color: colors.Z.withAlpha(0.5),
-        min: new Cesium.Cartesian3(start, start, -thickness),
-        max: new Cesium.Cartesian3(end, end, thickness),
-      },
-      {
-        axis: "YZ" as const,
-        color: colors.X.withAlpha(0.5),
-        min: new Cesium.Cartesian3(-thickness, start, start),
-        max: new Cesium.Cartesian3(thickness, end, end),
-      },
-      {
-        axis: "ZX" as const,
-        color: colors.Y.withAlpha(0.5),
-        min: new Cesium.Cartesian3(start, -thickness, start),
-        max: new Cesium.Cartesian3(end, thickness, end),
-      },
-    ]
+    // --- B. 提取缩放 (Scale) ---
+    const scale = components
+      ? components.scale
+      : Cesium.Matrix4.getScale(modelMatrix, new Cesium.Cartesian3())
 
-    planes.forEach((plane) => {
-      const gizmoId = {
-        axis: plane.axis,
-        type: "translate",
-        name: `PLANE_${plane.axis}`,
-      } as GizmoId
+    // [修复1] 缩放精度修约
+    const cleanScale = (val: number) => {
+      if (Math.abs(val - 1.0) < 0.00001) return 1.0
+      return parseFloat(val.toFixed(3))
+    }
 
-      const boxGeometry = new Cesium.BoxGeometry({
-        minimum: plane.min,
-        maximum: plane.max,
-        vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
-      })
+    // --- C. 提取旋转 (Rotation) ---
+    const hpr = this.getObjectHeadingPitchRoll(
+      components ? components.rotation : Cesium.Matrix3.IDENTITY
+    )
 
-      const instance = new Cesium.GeometryInstance({
-        geometry: boxGeometry,
-        modelMatrix: Cesium.Matrix4.IDENTITY,
-        attributes: {
-          color: Cesium.ColorGeometryInstanceAttribute.fromColor(plane.color),
-        },
-        id: gizmoId,
-      })
+    // [修复2] 角度清洗函数
+    const toDegrees = (rad: number) => {
+      if (Math.abs(rad) < 1e-10) rad = 0
+      let degree = Cesium.Math.toDegrees(rad)
+      degree = degree % 360
+      if (degree < 0) degree += 360
+      if (Math.abs(degree - 360) < 0.01) degree = 0
+      if (Math.abs(degree) < 0.01) degree = 0
+      return parseFloat(degree.toFixed(2))
+    }
 
-      const primitive = new Cesium.Primitive({
-        geometryInstances: [instance],
-        appearance: this.getAppearance(plane.color, false),
-        asynchronous: false,
-      })
+    const state = {
+      position: {
+        x: parseFloat(position.x.toFixed(2)),
+        y: parseFloat(position.y.toFixed(2)),
+        z: parseFloat(position.z.toFixed(2)),
+      },
+      rotation: {
+        heading: toDegrees(hpr.heading),
+        pitch: toDegrees(hpr.pitch),
+        roll: toDegrees(hpr.roll),
+      },
+      scale: {
+        x: cleanScale(scale.x),
+        y: cleanScale(scale.y),
+        z: cleanScale(scale.z),
+      },
+      modelMatrix: modelMatrix.toString().replaceAll(")\n(", ","),
+    }
 
-      const key = `PLANE_${plane.axis}`
-      this._primitives.add(primitive)
-      this._axisPrimitives[key] = primitive
-      this.addCollider(key, gizmoId, plane.min, plane.max, "BOX")
-    })
+    return state
   }
 
   /**
-   * 创建 90度扇形旋转手柄 (Polyline 线框版)
+   * 设置对象位置：平移对象使当前枢轴点 (center) 落到指定经纬度
+   * @param position 经纬度（度）与高度（米），省略高度时保持当前高度
    */
-  private createRotationGizmo() {
-    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
-    const colors = this.colors
-    const radius = 1.0
-    // 线宽 (像素单位，注意：PolylineWidth 在某些 WebGL 实现中受限，通常最大为 1px 或需特殊处理，但在 Cesium 中通常有效)
-    const lineWidth = 3.0
+  public setPosition(position: GeodeticPosition) {
+    if (!this.applyPosition(position)) return
+    this.onUpdate && this.onUpdate(this.getTransformState())
+  }
 
-    // 1. 核心工具：根据轴向，直接生成 90度 圆弧点
-    // 用于 扇形面(Fan) 和 边框线(Rim)
-    const getArcPoints = (axis: string) => {
-      const positions: Cesium.Cartesian3[] = []
-      // 精度：5度一个点
-      for (let i = 0; i <= 90; i += 5) {
-        const rad = Cesium.Math.toRadians(i)
-        const c = Math.cos(rad) * radius
-        const s = Math.sin(rad) * radius
+  /**
+   * 设置对象朝向：以当前枢轴点为中心，旋转到相对当地东北天坐标系的指定姿态
+   * @param hpr 航向角、俯仰角、翻滚角（度）
+   */
+  public setHeadingPitchRoll(hpr: HeadingPitchRollDegrees) {
+    if (!this.applyHeadingPitchRoll(hpr)) return
+    this.onUpdate && this.onUpdate(this.getTransformState())
+  }
 
-        if (axis === "Z") {
-          // Z轴: XY平面 (X -> Y)
-          positions.push(new Cesium.Cartesian3(c, s, 0))
-        } else if (axis === "X") {
-          // X轴: YZ平面 (Y -> Z)
-          positions.push(new Cesium.Cartesian3(0, c, s))
-        } else if (axis === "Y") {
-          // Y轴: ZX平面 (Z -> X)
-          positions.push(new Cesium.Cartesian3(s, 0, c))
-        }
+  /**
+   * 设置对象缩放：以当前枢轴点为中心，沿对象自身坐标轴缩放到指定比例
+   * @param scale 各轴缩放比例
+   */
+  public setScale(scale: ScaleValue) {
+    if (!this.applyScale(scale)) return
+    this.onUpdate && this.onUpdate(this.getTransformState())
+  }
+
+  /**
+   * 批量设置变换状态，未传入的分量保持不变，只触发一次 onUpdate
+   * 与 getTransformState 使用相同的基准：位置为枢轴点，姿态角相对目标枢轴点处的当地东北天坐标系，
+   * 旋转与缩放绕枢轴点进行；与 getTransformState 返回值相同的分量保持当前值，因此传入其返回值不会改变对象
+   * @param state 变换状态
+   */
+  public setTransformState(state: TransformStateInput) {
+    if (!this.object || !this.center || this._isDragging) return
+    const current = this.decomposeMatrix(this.getObjectMatrix(this.object))
+    const currentState = this.getTransformState()
+    if (!current || !currentState) return
+    const pivot = this.center
+
+    // 1. 目标枢轴点 (锁定的平移轴保持不变)
+    let target = pivot
+    if (state.position) {
+      let position: Cesium.Cartesian3
+      if ("longitude" in state.position) {
+        const { longitude, latitude, height } = state.position
+        position = Cesium.Cartesian3.fromDegrees(
+          longitude,
+          latitude,
+          height ?? Cesium.Cartographic.fromCartesian(pivot)?.height ?? 0
+        )
+      } else {
+        const { x, y, z } = state.position
+        const rounded = currentState.position
+        position = new Cesium.Cartesian3(
+          x === rounded.x ? pivot.x : x,
+          y === rounded.y ? pivot.y : y,
+          z === rounded.z ? pivot.z : z
+        )
       }
-      return positions
+      const offset = this.constrainOffset(
+        Cesium.Cartesian3.subtract(position, pivot, new Cesium.Cartesian3()),
+        this.getGizmoFrame(pivot)
+      )
+      target = Cesium.Cartesian3.add(pivot, offset, new Cesium.Cartesian3())
     }
 
-    axes.forEach((axis) => {
-      const gizmoId = { axis, type: "rotate", name: `ROT_${axis}` } as GizmoId
-
-      // 获取当前轴的路径点
-      const arcPoints = getArcPoints(axis)
+    // 2. 目标旋转：姿态角相对目标枢轴点处的当地东北天坐标系
+    let rotation = current.rotation
+    if (state.rotation) {
+      const currentHpr = this.getObjectHeadingPitchRoll(current.rotation)
+      const hpr = this.resolveHeadingPitchRoll(state.rotation, currentHpr)
+      if (
+        !Cesium.HeadingPitchRoll.equals(hpr, currentHpr) ||
+        !Cesium.Cartesian3.equals(target, pivot)
+      ) {
+        rotation = Cesium.Matrix4.getMatrix3(
+          Cesium.Transforms.headingPitchRollToFixedFrame(target, hpr),
+          new Cesium.Matrix3()
+        )
+      }
+    }
 
-      // ==========================================
-      // A. 创建扇形面 (Fan) - 手动构建 Mesh
-      // ==========================================
-      const fanPositions: number[] = []
-      const fanIndices: number[] = []
+    // 3. 缩放倍数 (锁定的缩放轴保持不变)
+    const factors = new Cesium.Cartesian3(1, 1, 1)
+    if (state.scale) {
+      const lockScale = this._constraints.lockScale || []
+      ;(["x", "y", "z"] as const).forEach((component) => {
+        if (lockScale.includes(component.toUpperCase() as LockAxis)) return
+        if (state.scale![component] === currentState.scale[component]) return
+        factors[component] = state.scale![component] / current.scale[component]
+      })
+      if (
+        !Number.isFinite(factors.x) ||
+        !Number.isFinite(factors.y) ||
+        !Number.isFinite(factors.z)
+      ) {
+        return
+      }
+    }
+    const scaled = !Cesium.Cartesian3.equals(
+      factors,
+      new Cesium.Cartesian3(1, 1, 1)
+    )
 
-      // 圆心 (0,0,0)
-      fanPositions.push(0, 0, 0)
-      // 添加圆弧点
-      arcPoints.forEach((p) => fanPositions.push(p.x, p.y, p.z))
+    // 刚体部分：绕枢轴点旋转后平移到目标枢轴点，所有绑定对象一起变换
+    const delta =
+      rotation === current.rotation
+        ? Cesium.Matrix3.IDENTITY
+        : Cesium.Matrix3.multiply(
+            rotation,
+            Cesium.Matrix3.transpose(current.rotation, new Cesium.Matrix3()),
+            new Cesium.Matrix3()
+          )
+    const rigid = Cesium.Matrix4.fromRotationTranslation(
+      delta,
+      Cesium.Cartesian3.subtract(
+        target,
+        Cesium.Matrix3.multiplyByVector(delta, pivot, new Cesium.Cartesian3()),
+        new Cesium.Cartesian3()
+      )
+    )
 
-      // 构建三角形 (Center -> Current -> Next)
-      for (let i = 1; i < arcPoints.length; i++) {
-        fanIndices.push(0, i, i + 1)
+    this.captureInitialState()
+    const previous = this.objects.map((object) => object.modelMatrix.clone())
+    this.objects.forEach((object, index) => {
+      Cesium.Matrix4.multiply(
+        rigid,
+        this._initialModelMatrices[index],
+        object.modelMatrix
+      )
+      // 缩放沿各对象自身坐标轴，绕枢轴点进行，枢轴点位置保持不变
+      if (scaled) {
+        this.scaleInObjectFrame(object, object.modelMatrix, target, factors)
       }
+    })
+    this.center = target.clone()
+    this.enforceConstraints(previous)
+    this.markDirty()
 
-      const attributes = new Cesium.GeometryAttributes()
-      attributes.position = new Cesium.GeometryAttribute({
-        componentDatatype: Cesium.ComponentDatatype.DOUBLE,
-        componentsPerAttribute: 3,
-        values: new Float64Array(fanPositions),
-      })
+    const changed = this.objects.some(
+      (object, index) =>
+        !Cesium.Matrix4.equals(object.modelMatrix, previous[index])
+    )
+    if (changed) this.onUpdate && this.onUpdate(this.getTransformState())
+  }
 
-      const fanGeometry = new Cesium.Geometry({
-        attributes,
-        indices: new Uint16Array(fanIndices),
-        primitiveType: Cesium.PrimitiveType.TRIANGLES,
-        boundingSphere: new Cesium.BoundingSphere(
-          Cesium.Cartesian3.ZERO,
-          radius
+  private applyPosition(position: GeodeticPosition) {
+    if (!this.object || !this.center || this._isDragging) return false
+
+    const height =
+      position.height ??
+      Cesium.Cartographic.fromCartesian(this.center)?.height ??
+      0
+    const offset = this.constrainOffset(
+      Cesium.Cartesian3.subtract(
+        Cesium.Cartesian3.fromDegrees(
+          position.longitude,
+          position.latitude,
+          height
         ),
-      })
-
-      // ==========================================
-      // B. 创建边框线 (Rim) - 使用 Polyline
-      // ==========================================
-      // 为了让线框看起来闭合，我们可以把圆心也加进去，或者只画圆弧。
-      // UE5 风格通常有两条直边 + 一条圆弧。
-      // 这里构建：圆心 -> 第一点 -> ...弧线... -> 最后点 -> 圆心
-      const linePositions = [...arcPoints]
+        this.center,
+        new Cesium.Cartesian3()
+      ),
+      this.getGizmoFrame(this.center)
+    )
+    const target = Cesium.Cartesian3.add(
+      this.center,
+      offset,
+      new Cesium.Cartesian3()
+    )
 
-      const rimGeometry = new Cesium.PolylineGeometry({
-        positions: linePositions,
-        width: lineWidth,
-        vertexFormat: Cesium.PolylineColorAppearance.VERTEX_FORMAT,
-        arcType: Cesium.ArcType.NONE, // 关键：禁用测地线，直接连线
-      })
+    this.captureInitialState()
+    this.center = target
+    this.applyTranslation(target)
+    return true
+  }
 
-      // ==========================================
-      // C. 创建 Primitive
-      // ==========================================
-      const modelMatrix = Cesium.Matrix4.IDENTITY
+  private applyHeadingPitchRoll(hpr: HeadingPitchRollDegrees) {
+    if (!this.object || !this.center || this._isDragging) return false
 
-      // 1. 扇形面实例
-      const fanColor = colors[axis].withAlpha(0.2)
-      const fanInstance = new Cesium.GeometryInstance({
-        geometry: fanGeometry,
-        modelMatrix: modelMatrix,
-        attributes: {
-          color: Cesium.ColorGeometryInstanceAttribute.fromColor(fanColor),
-        },
-        id: gizmoId,
-      })
+    const currentRotation = this.getObjectRotation()
+    if (!currentRotation) return false
+    const currentHpr = this.getObjectHeadingPitchRoll(currentRotation)
+    const targetHpr = this.resolveHeadingPitchRoll(hpr, currentHpr)
+    if (Cesium.HeadingPitchRoll.equals(targetHpr, currentHpr)) return false
 
-      // 2. 边框线实例
-      const rimInstance = new Cesium.GeometryInstance({
-        geometry: rimGeometry,
-        modelMatrix: modelMatrix,
-        attributes: {
-          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
-        },
-        id: gizmoId,
-      })
+    const targetFrame = Cesium.Transforms.headingPitchRollToFixedFrame(
+      this.center,
+      targetHpr
+    )
+    const targetRotation = Cesium.Matrix4.getMatrix3(
+      targetFrame,
+      new Cesium.Matrix3()
+    )
 
-      // 注意：线和面需要不同的 Appearance，所以最好分成两个 Primitive，或者使用支持两者的特殊写法。
-      // 但最简单稳妥的方法是：加两个 Primitive。
-      // 为了管理方便，我们还是把它们加到一个 update 逻辑里。
+    // 增量旋转 = 目标旋转 * 当前旋转的逆 (正交矩阵的逆即转置)
+    const delta = Cesium.Matrix3.multiply(
+      targetRotation,
+      Cesium.Matrix3.transpose(currentRotation, new Cesium.Matrix3()),
+      new Cesium.Matrix3()
+    )
+    this.captureInitialState()
+    this.applyTransform(Cesium.Matrix4.fromRotationTranslation(delta))
+    return true
+  }
 
-      // Primitive 1: 扇形面
-      const fanPrimitive = new Cesium.Primitive({
-        geometryInstances: [fanInstance],
-        appearance: this.getAppearance(colors[axis], false), // 面着色
-        asynchronous: false,
-      })
+  private applyScale(scale: ScaleValue) {
+    if (!this.object || !this.center || this._isDragging) return false
+    const components = this.decomposeMatrix(this.getObjectMatrix(this.object))
+    if (!components) return false
+
+    const currentScale = components.scale
+    const lockScale = this._constraints.lockScale || []
+    scale = {
+      x: lockScale.includes("X") ? currentScale.x : scale.x,
+      y: lockScale.includes("Y") ? currentScale.y : scale.y,
+      z: lockScale.includes("Z") ? currentScale.z : scale.z,
+    }
+    const ratio = new Cesium.Cartesian3(
+      scale.x / currentScale.x,
+      scale.y / currentScale.y,
+      scale.z / currentScale.z
+    )
+    if (
+      !Number.isFinite(ratio.x) ||
+      !Number.isFinite(ratio.y) ||
+      !Number.isFinite(ratio.z)
+    ) {
+      return false
+    }
 
-      // Primitive 2: 边框线
-      const rimPrimitive = new Cesium.Primitive({
-        geometryInstances: [rimInstance],
-        appearance: this.getAppearance(colors[axis], true), // 线着色
-        asynchronous: false,
-      })
+    this.captureInitialState()
+    this.applyLocalScale(ratio)
+    return true
+  }
 
-      this._primitives.add(fanPrimitive)
-      this._primitives.add(rimPrimitive)
+  /**
+   * 计算对象旋转相对枢轴点处当地东北天坐标系的姿态角（弧度，未修约）
+   * getTransformState 与各设置方法共用这一基准
+   * @param rotation 对象的旋转矩阵
+   */
+  private getObjectHeadingPitchRoll(rotation: Cesium.Matrix3) {
+    const enuRotation = Cesium.Matrix4.getMatrix3(
+      Cesium.Transforms.eastNorthUpToFixedFrame(this.center!),
+      new Cesium.Matrix3()
+    )
+    const localRotation = Cesium.Matrix3.multiply(
+      Cesium.Matrix3.transpose(enuRotation, enuRotation),
+      rotation,
+      new Cesium.Matrix3()
+    )
+    return Cesium.HeadingPitchRoll.fromQuaternion(
+      Cesium.Quaternion.fromRotationMatrix(localRotation)
+    )
+  }
 
-      // 存入引用以便 update (存一个对象包含两者)
-      // 这里我们需要修改 _axisPrimitives 的类型定义，或者简单地存入一个复合对象
-      // 为了不破坏 update 逻辑，我们可以利用 JS 对象的动态性，或者给 key 加后缀
-      this._axisPrimitives[`${axis}_fan`] = fanPrimitive
-      this._axisPrimitives[`${axis}_rim`] = rimPrimitive
-      // 同时保留 axis key 指向其中一个（通常没用，update里会改）
-      // 我们将在 update 里专门处理 _fan 和 _rim 后缀
+  /**
+   * 将目标姿态角（度）转换为弧度，以下分量保持当前未修约的角度：
+   * 锁定的旋转轴 (X 对应翻滚角，Y 对应俯仰角，Z 对应航向角)，以及与 getTransformState 返回值相同的分量
+   * @param hpr 目标姿态角（度）
+   * @param current 当前姿态角（弧度）
+   */
+  private resolveHeadingPitchRoll(
+    hpr: HeadingPitchRollDegrees,
+    current: Cesium.HeadingPitchRoll
+  ) {
+    const lockRotate = this._constraints.lockRotate || []
+    const rounded = this.getTransformState()?.rotation
+    const resolve = (key: keyof HeadingPitchRollDegrees, axis: LockAxis) =>
+      lockRotate.includes(axis) || hpr[key] === rounded?.[key]
+        ? current[key]
+        : Cesium.Math.toRadians(hpr[key])
+    return new Cesium.HeadingPitchRoll(
+      resolve("heading", "Z"),
+      resolve("pitch", "Y"),
+      resolve("roll", "X")
+    )
+  }
 
-      // ==========================================
-      // D. 碰撞体 (Sector)
-      // ==========================================
-      const tube = 0.05 // 虚拟厚度
-      const r = radius + tube
-      let min = new Cesium.Cartesian3()
-      let max = new Cesium.Cartesian3()
-      let ringNormalAxis: 0 | 1 | 2 = 2
+  /**
+   * 撤销上一次拖拽，将对应对象恢复到拖拽前的姿态（无论其当前是否绑定）
+   * @returns 是否执行了撤销
+   */
+  public undo() {
+    if (this._isDragging) return false
+    const entry = this.popHistory(this._undoStack)
+    this._nudgeEntry = null
+    if (!entry) return false
+
+    this.restoreHistory(entry.objects, entry.before, entry.centerBefore)
+    this._redoStack.push(entry)
+    this.emitHistoryChange()
+    return true
+  }
 
-      if (axis === "Z") {
-        min = new Cesium.Cartesian3(0, 0, -tube)
-        max = new Cesium.Cartesian3(r, r, tube)
-        ringNormalAxis = 2
-      } else if (axis === "X") {
-        min = new Cesium.Cartesian3(-tube, 0, 0)
-        max = new Cesium.Cartesian3(tube, r, r)
-        ringNormalAxis = 0
-      } else if (axis === "Y") {
-        min = new Cesium.Cartesian3(0, -tube, 0)
-        max = new Cesium.Cartesian3(r, tube, r)
-        ringNormalAxis = 1
-      }
+  /**
+   * 重做上一次被撤销的拖拽
+   * @returns 是否执行了重做
+   */
+  public redo() {
+    if (this._isDragging) return false
+    const entry = this.popHistory(this._redoStack)
+    this._nudgeEntry = null
+    if (!entry) return false
+
+    this.restoreHistory(entry.objects, entry.after, entry.centerAfter)
+    this._undoStack.push(entry)
+    this.emitHistoryChange()
+    return true
+  }
 
-      this.addCollider(axis, gizmoId, min, max, "SECTOR", {
-        radius: radius,
-        tube: tube, // 点击容差
-        ringNormalAxis: ringNormalAxis,
-        startAngle: 0,
-        endAngle: Math.PI / 2,
-      })
-    })
+  /**
+   * 清空历史记录
+   */
+  public clearHistory() {
+    if (this._undoStack.length === 0 && this._redoStack.length === 0) return
+    this._undoStack = []
+    this._redoStack = []
+    this.emitHistoryChange()
   }
 
-  private createScaleGizmo() {
-    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
-    const colors = this.colors
-    const directions = {
-      X: new Cesium.Cartesian3(1, 0, 0),
-      Y: new Cesium.Cartesian3(0, 1, 0),
-      Z: new Cesium.Cartesian3(0, 0, 1),
+  /**
+   * 记录一次拖拽的前后状态，模型矩阵未变化时不记录
+   * @param nudge 是否为微调；距上一次微调不足 500ms 且选择集未变时合并到上一条记录，按住方向键只产生一条记录
+   */
+  private recordHistory(nudge: boolean = false) {
+    if (!this.object || !this.center) return
+    const changed = this.objects.some(
+      (object, index) =>
+        !Cesium.Matrix4.equals(
+          this._initialModelMatrices[index],
+          object.modelMatrix
+        )
+    )
+    if (!changed) return
+
+    const now = performance.now()
+    const last = this._undoStack[this._undoStack.length - 1]
+    if (
+      nudge &&
+      last &&
+      last === this._nudgeEntry &&
+      now - this._nudgeTime < 500 &&
+      last.objects.length === this.objects.length &&
+      last.objects.every((object, index) => this.objects[index] === object)
+    ) {
+      last.after = this.objects.map((object) => object.modelMatrix.clone())
+      last.centerAfter = this.center.clone()
+      this._nudgeTime = now
+      if (this._redoStack.length > 0) {
+        this._redoStack = []
+        this.emitHistoryChange()
+      }
+      return
     }
 
-    axes.forEach((axis) => {
-      const gizmoId = { axis, type: "scale", name: `SCALE_${axis}` } as GizmoId
+    const entry: HistoryEntry = {
+      objects: [...this.objects],
+      before: this._initialModelMatrices.map((m) => m.clone()),
+      after: this.objects.map((object) => object.modelMatrix.clone()),
+      centerBefore: this._dragStartCenter.clone(),
+      centerAfter: this.center.clone(),
+    }
+    this._undoStack.push(entry)
+    this._nudgeEntry = nudge ? entry : null
+    this._nudgeTime = now
+    if (this._undoStack.length > this.historyLimit) {
+      this._undoStack.splice(0, this._undoStack.length - this.historyLimit)
+    }
+    this._redoStack = []
+    this.emitHistoryChange()
+  }
 
-      const startPoint = Cesium.Cartesian3.multiplyByScalar(
-        directions[axis],
-        this._centerRadius,
+  /**
+   * 弹出最近一条有效记录，跳过对象均已被销毁的记录
+   */
+  private popHistory(stack: HistoryEntry[]) {
+    return this.pruneHistory(stack).pop()
+  }
+
+  /**
+   * 移除栈顶所有对象均已销毁、无法恢复的记录
+   */
+  private pruneHistory(stack: HistoryEntry[]) {
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].objects.every((object) => object.isDestroyed())
+    ) {
+      stack.pop()
+    }
+    return stack
+  }
+
+  private restoreHistory(
+    objects: TransformObject[],
+    modelMatrices: Cesium.Matrix4[],
+    center: Cesium.Cartesian3
+  ) {
+    const activeIndex = this.object ? objects.indexOf(this.object) : -1
+    const previousActiveMatrix =
+      activeIndex >= 0 ? this.object!.modelMatrix.clone() : undefined
+
+    objects.forEach((object, index) => {
+      if (object.isDestroyed()) return
+      object.modelMatrix = modelMatrices[index].clone()
+    })
+    this.markDirty()
+
+    // 仅当恢复的对象包含活动对象时，同步 Gizmo 位置并通知外部
+    if (activeIndex < 0 || !previousActiveMatrix || !this.center) return
+    const sameSelection =
+      objects.length === this.objects.length &&
+      objects.every((object, index) => this.objects[index] === object)
+    if (sameSelection) {
+      this.center = center.clone()
+    } else {
+      // 选择集已变化，按活动对象的矩阵变化量推算新的中心
+      const delta = Cesium.Matrix4.multiply(
+        modelMatrices[activeIndex],
+        Cesium.Matrix4.inverse(previousActiveMatrix, new Cesium.Matrix4()),
+        new Cesium.Matrix4()
+      )
+      this.center = Cesium.Matrix4.multiplyByPoint(
+        delta,
+        this.center,
         new Cesium.Cartesian3()
       )
+    }
+    this.onUpdate && this.onUpdate(this.getTransformState())
+  }
 
-      const lineInstance = new Cesium.GeometryInstance({
-        geometry: new Cesium.PolylineGeometry({
-          positions: [startPoint, directions[axis]],
-          width: this._width,
-          vertexFormat: Cesium.PolylineColorAppearance.VERTEX_FORMAT,
-          arcType: Cesium.ArcType.NONE,
-        }),
-        attributes: {
-          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
-        },
-        id: gizmoId,
-      })
+  private emitHistoryChange() {
+    const state = { canUndo: this.canUndo, canRedo: this.canRedo }
+    this.onHistoryChange && this.onHistoryChange(state)
+    this.emit("history", state)
+  }
 
-      const boxGeometry = new Cesium.BoxGeometry({
-        minimum: new Cesium.Cartesian3(-0.05, -0.05, -0.05),
-        maximum: new Cesium.Cartesian3(0.05, 0.05, 0.05),
-        vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
-      })
-      const boxInstance = new Cesium.GeometryInstance({
-        geometry: boxGeometry,
-        modelMatrix: Cesium.Matrix4.IDENTITY,
-        attributes: {
-          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
-        },
-        id: gizmoId,
-      })
+  //销毁Gizmo
+  public destroy() {
+    this.viewer.scene.preUpdate.removeEventListener(this.update, this)
+    this.viewer.scene.primitives.remove(this._primitives)
 
-      const pLine = new Cesium.Primitive({
-        geometryInstances: [lineInstance],
-        appearance: this.getAppearance(colors[axis], true),
-        asynchronous: false,
-      })
-      const pBox = new Cesium.Primitive({
-        geometryInstances: [boxInstance],
-        appearance: this.getAppearance(colors[axis], false),
-        asynchronous: false,
-      })
+    this.applyOutlineSelection([])
+    if (this._outlineStage) {
+      this.viewer.scene.postProcessStages.remove(this._outlineStage)
+      this._outlineStage = undefined
+      this._edgeDetectionStage = undefined
+    }
 
-      const keyLine = `${axis}_line`
-      const keyBox = `${axis}_box`
+    this.removeControlEvents()
 
-      this._primitives.add(pLine)
-      this._primitives.add(pBox)
-      this._axisPrimitives[keyLine] = pLine
-      this._axisPrimitives[keyBox] = pBox
+    this._undoStack = []
+    this._redoStack = []
+  }
 
-      const colliderWidth = 0.1
-      let min = new Cesium.Cartesian3()
-      let max = new Cesium.Cartesian3()
-      if (axis === "X") {
-        min = new Cesium.Cartesian3(0, -colliderWidth, -colliderWidth)
-        max = new Cesium.Cartesian3(1.1, colliderWidth, colliderWidth)
-      } else if (axis === "Y") {
-        min = new Cesium.Cartesian3(-colliderWidth, 0, -colliderWidth)
-        max = new Cesium.Cartesian3(colliderWidth, 1.1, colliderWidth)
-      } else {
-        min = new Cesium.Cartesian3(-colliderWidth, -colliderWidth, 0)
-        max = new Cesium.Cartesian3(colliderWidth, colliderWidth, 1.1)
-      }
-      this.addCollider(keyLine, gizmoId, min, max, "BOX")
-    })
+  /**
+   * 解绑当前对象，隐藏 TransformGizmo
+   */
+  detach() {
+    this.resetState()
+    if (this.object) this.emit("unbind", this.createEvent(null))
+    this.object = null as any // 临时处理类型，或者修改属性定义允许为 null
+    this.objects = []
+    this.center = undefined
+
+    // 隐藏 TransformGizmo
+    this.hideGizmo()
+
+    // 清空描边
+    this.updateOutlineSelection()
   }
 
-  // ==================================================================================
-  //                                  2. 帧更新循环
-  // ==================================================================================
+  /**
+   * 按 showOn 计算需要描边的对象：已绑定、悬停手柄或拖拽中
+   */
+  private updateOutlineSelection() {
+    const { enabled, showOn = [] } = this._outline
+    const visible =
+      enabled &&
+      this.objects.length > 0 &&
+      (showOn.includes("bound") ||
+        (showOn.includes("hover") && !!this._highlightedId) ||
+        (showOn.includes("drag") && this._isDragging))
+    this.applyOutlineSelection(visible ? [...this.objects] : [])
+  }
 
-  private update() {
-    if (!this.center) return
+  /**
+   * 将描边对象交给自定义适配器或内置描边后处理，选中对象不变时跳过
+   */
+  private applyOutlineSelection(objects: TransformObject[]) {
+    const previous = this._outlineSelection
+    if (
+      previous.length === objects.length &&
+      previous.every((object, index) => object === objects[index])
+    ) {
+      return
+    }
+    this._outlineSelection = objects
 
-    const scene = this.viewer.scene
-    const camera = scene.camera
+    if (this._outline.adapter) {
+      this._outline.adapter([...objects])
+    } else if (this._edgeDetectionStage) {
+      this._edgeDetectionStage.selected = [...objects]
+    }
+  }
 
-    // 1. 计算基础参数
-    const pixelSize = camera.getPixelSize(
-      new Cesium.BoundingSphere(this.center, 0),
-      this.viewer.canvas.clientWidth,
-      this.viewer.canvas.clientHeight
+  /**
+   * 内部状态重置
+   */
+  private resetState() {
+    this._isDragging = false
+    this._dragAxisName = ""
+    this._dragId = null
+    this._dragPlane = undefined
+    this._activeScale = new Cesium.Cartesian3(1, 1, 1)
+    this.markDirty()
+
+    // 清除 TransformGizmo 高亮
+    this.restoreHighlight()
+    this._highlightedId = null
+
+    // 恢复相机控制 (防止在拖拽中途切换导致相机锁死)
+    this.setCameraControl(true)
+  }
+
+  /**
+   * 开关相机交互
+   * 拖拽期间除旋转/平移外，还需禁用 Ctrl/Shift + 左键对应的倾斜与环视，
+   * 否则按住吸附修饰键拖拽时相机会跟着转动
+   */
+  private setCameraControl(enabled: boolean) {
+    const controller = this.viewer.scene.screenSpaceCameraController
+    controller.enableRotate = enabled
+    controller.enableTranslate = enabled
+    controller.enableTilt = enabled
+    controller.enableLook = enabled
+  }
+
+  private parseCenter() {
+    if (!this.object) {
+      this.center = undefined
+      return
+    }
+    if (this.pivotFollowsActive) {
+      this.center = this.getObjectPivot(this.object)
+      return
+    }
+
+    // 多选：包围球模式取合并包围球的中心，其余模式取各对象枢轴点的平均值
+    if (this._pivot === "center") {
+      const sphere = Cesium.BoundingSphere.fromBoundingSpheres(
+        this.objects.map((object) => object.boundingSphere)
+      )
+      this.center = sphere.center.clone()
+    } else {
+      const sum = new Cesium.Cartesian3()
+      this.objects.forEach((object) =>
+        Cesium.Cartesian3.add(sum, this.getObjectPivot(object), sum)
+      )
+      this.center = Cesium.Cartesian3.divideByScalar(
+        sum,
+        this.objects.length,
+        sum
+      )
+    }
+  }
+
+  /**
+   * 中心点是否只由活动对象决定：单选、公共枢轴为 active，或活动对象设置了自定义枢轴点
+   */
+  private get pivotFollowsActive() {
+    return (
+      this.objects.length <= 1 ||
+      this._groupPivot === "active" ||
+      (this._pivot === "custom" && this._customPivot?.object === this.object)
     )
-    const baseScale = pixelSize * this.axisLength
-    const enuMatrix = Cesium.Transforms.eastNorthUpToFixedFrame(this.center)
-    const inverseEnu = Cesium.Matrix4.inverse(enuMatrix, new Cesium.Matrix4())
+  }
 
-    // 2. 计算相机在 TransformGizmo 局部坐标系下的位置向量
-    const centerToCamera = Cesium.Cartesian3.subtract(
-      camera.position,
-      this.center,
+  /**
+   * 按枢轴点模式获取单个对象自身的枢轴点，无法计算时退回包围球中心
+   */
+  private getObjectPivot(object: TransformObject) {
+    if (this._pivot === "origin") {
+      const origin = this.getObjectOrigin(object)
+      if (origin) return origin
+    } else if (this._pivot === "bottom") {
+      return this.getObjectBottom(object)
+    } else if (
+      this._pivot === "custom" &&
+      this._customPivot?.object === object
+    ) {
+      return Cesium.Matrix4.multiplyByPoint(
+        object.modelMatrix,
+        this._customPivot.local,
+        new Cesium.Cartesian3()
+      )
+    }
+    return object.boundingSphere.center.clone()
+  }
+
+  /**
+   * 获取对象原点：Model 为 modelMatrix 的平移分量，
+   * 3DTileset 还需叠加根节点 transform；原点位于地心附近（坐标直接写在顶点中）时返回 undefined
+   */
+  private getObjectOrigin(object: TransformObject) {
+    let matrix = object.modelMatrix
+    if (object instanceof Cesium.Cesium3DTileset && object.root) {
+      matrix = Cesium.Matrix4.multiply(
+        matrix,
+        object.root.transform,
+        new Cesium.Matrix4()
+      )
+    }
+    const origin = Cesium.Matrix4.getTranslation(
+      matrix,
       new Cesium.Cartesian3()
     )
-    const localCameraDir = Cesium.Matrix4.multiplyByPointAsVector(
-      inverseEnu,
-      centerToCamera,
+    if (Cesium.Cartesian3.magnitude(origin) < 1.0) return undefined
+    return origin
+  }
+
+  /**
+   * 获取对象包围体底部中心：沿当地铅垂方向取包围体的最低点
+   * 3DTileset 使用根节点的有向包围盒，Model 使用几何体顶点范围的有向包围盒，均无法获取时退回包围球
+   */
+  private getObjectBottom(object: TransformObject) {
+    const sphere = object.boundingSphere
+    let center = sphere.center
+    let extent = sphere.radius
+
+    const up = Cesium.Ellipsoid.WGS84.geodeticSurfaceNormal(
+      center,
       new Cesium.Cartesian3()
     )
-    Cesium.Cartesian3.normalize(localCameraDir, localCameraDir)
+    let volume: Cesium.OrientedBoundingBox | undefined
+    if (object instanceof Cesium.Cesium3DTileset) {
+      // @ts-ignore 根节点包围体未在类型声明中公开
+      volume = object.root?.boundingVolume?.boundingVolume
+    } else {
+      volume = this.getModelBox(object)
+    }
+    if (volume instanceof Cesium.OrientedBoundingBox) {
+      center = volume.center
+      extent = 0
+      for (let i = 0; i < 3; i++) {
+        const halfAxis = Cesium.Matrix3.getColumn(
+          volume.halfAxes,
+          i,
+          new Cesium.Cartesian3()
+        )
+        extent += Math.abs(Cesium.Cartesian3.dot(halfAxis, up))
+      }
+    }
+
+    return Cesium.Cartesian3.subtract(
+      center,
+      Cesium.Cartesian3.multiplyByScalar(up, extent, new Cesium.Cartesian3()),
+      new Cesium.Cartesian3()
+    )
+  }
+
+  /**
+   * 获取 Model 几何体的有向包围盒：合并各节点图元顶点的最小/最大值，按当前 modelMatrix 变换到世界坐标
+   * 与 Cesium 计算包围球的方式一致，场景图尚未构建或内部结构与预期不符 (其他 Cesium 版本) 时返回 undefined
+   */
+  private getModelBox(model: Cesium.Model) {
+    // @ts-ignore 场景图未在类型声明中公开
+    const sceneGraph = model.sceneGraph
+    if (!model.ready || !Array.isArray(sceneGraph?._runtimeNodes)) {
+      return undefined
+    }
+    try {
+      return this.computeModelBox(model, sceneGraph)
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * 遍历场景图计算 Model 的有向包围盒，依赖 Cesium 未公开的内部结构，由 getModelBox 捕获异常
+   */
+  private computeModelBox(model: Cesium.Model, sceneGraph: any) {
+    const min = new Cesium.Cartesian3(
+      Number.MAX_VALUE,
+      Number.MAX_VALUE,
+      Number.MAX_VALUE
+    )
+    const max = new Cesium.Cartesian3(
+      -Number.MAX_VALUE,
+      -Number.MAX_VALUE,
+      -Number.MAX_VALUE
+    )
+    const corner = new Cesium.Cartesian3()
+    sceneGraph._runtimeNodes.forEach((node: any) => {
+      // 场景图中不可达的节点没有对应的运行时节点
+      if (!node || !Array.isArray(node.runtimePrimitives)) return
+      node.runtimePrimitives.forEach((runtimePrimitive: any) => {
+        const attributes = runtimePrimitive?.primitive?.attributes
+        if (!Array.isArray(attributes)) return
+        const position = attributes.find(
+          (attribute: any) => attribute.semantic === "POSITION"
+        )
+        if (!position?.min || !position?.max) return
+        for (let i = 0; i < 8; i++) {
+          corner.x = i & 1 ? position.max.x : position.min.x
+          corner.y = i & 2 ? position.max.y : position.min.y
+          corner.z = i & 4 ? position.max.z : position.min.z
+          Cesium.Matrix4.multiplyByPoint(node.computedTransform, corner, corner)
+          Cesium.Cartesian3.minimumByComponent(min, corner, min)
+          Cesium.Cartesian3.maximumByComponent(max, corner, max)
+        }
+      })
+    })
+    if (min.x > max.x) return undefined
+
+    const transform = sceneGraph.components?.transform
+    const axisCorrection = sceneGraph.axisCorrectionMatrix
+    // @ts-ignore computedScale 未在类型声明中公开
+    const computedScale: unknown = model.computedScale
+    if (
+      !(transform instanceof Cesium.Matrix4) ||
+      !(axisCorrection instanceof Cesium.Matrix4) ||
+      typeof computedScale !== "number"
+    ) {
+      return undefined
+    }
+
+    // modelMatrix * 组件变换 * 轴向校正 (y-up 转 z-up) * 缩放
+    const matrix = Cesium.Matrix4.multiply(
+      model.modelMatrix,
+      transform,
+      new Cesium.Matrix4()
+    )
+    Cesium.Matrix4.multiply(matrix, axisCorrection, matrix)
+    Cesium.Matrix4.multiplyByUniformScale(matrix, computedScale, matrix)
+
+    const center = Cesium.Cartesian3.midpoint(min, max, new Cesium.Cartesian3())
+    const halfExtents = Cesium.Cartesian3.subtract(
+      max,
+      center,
+      new Cesium.Cartesian3()
+    )
+    return new Cesium.OrientedBoundingBox(
+      Cesium.Matrix4.multiplyByPoint(matrix, center, center),
+      Cesium.Matrix3.multiplyByScale(
+        Cesium.Matrix4.getMatrix3(matrix, new Cesium.Matrix3()),
+        halfExtents,
+        new Cesium.Matrix3()
+      )
+    )
+  }
+
+  /**
+   * 记录变换前的状态 (中心点、各对象模型矩阵及自身枢轴点)，作为 applyTransform 的基准
+   */
+  private captureInitialState() {
+    if (!this.center) return
+    this._dragStartCenter = this.center.clone()
+    this._initialModelMatrix = this.object
+      ? this.object.modelMatrix.clone()
+      : Cesium.Matrix4.IDENTITY.clone()
+    this._initialModelMatrices = this.objects.map((object) =>
+      object.modelMatrix.clone()
+    )
+    this._initialPivots = this.objects.map((object) =>
+      this.getObjectPivot(object)
+    )
+  }
+
+  /**
+   * 计算 Gizmo 坐标系：原点位于 center，轴向由 space 决定
+   * - enu: 当地东北天坐标系
+   * - local: 绑定对象自身的旋转（去除缩放后正交化）
+   * 传入 scale 模式 (缩放模式的手柄，或万能模式的缩放方块) 时始终使用 local，与 space 无关，使缩放手柄与实际缩放的对象轴一致
+   */
+  private getGizmoFrame(
+    center: Cesium.Cartesian3,
+    mode?: TransformMode,
+    result = new Cesium.Matrix4()
+  ) {
+    if (this.space === "local" || mode === "scale") {
+      const rotation = this.getObjectRotation()
+      if (rotation) {
+        return Cesium.Matrix4.fromRotationTranslation(rotation, center, result)
+      }
+    }
+    return Cesium.Transforms.eastNorthUpToFixedFrame(center, undefined, result)
+  }
+
+  /**
+   * 提取绑定对象的纯旋转矩阵，无法提取（如缩放为 0）时返回 undefined
+   */
+  private getObjectRotation(): Cesium.Matrix3 | undefined {
+    if (!this.object) return undefined
+    return this.decomposeMatrix(this.getObjectMatrix(this.object))?.rotation
+  }
+
+  /**
+   * 获取对象的完整模型矩阵
+   * 3DTileset 的朝向通常写在根节点 transform 中，需与 modelMatrix 叠加
+   */
+  private getObjectMatrix(
+    object: TransformObject,
+    modelMatrix: Cesium.Matrix4 = object.modelMatrix
+  ) {
+    if (object instanceof Cesium.Cesium3DTileset && object.root) {
+      return Cesium.Matrix4.multiply(
+        modelMatrix,
+        object.root.transform,
+        new Cesium.Matrix4()
+      )
+    }
+    return modelMatrix.clone()
+  }
+
+  /**
+   * 将完整模型矩阵写回对象的 modelMatrix（3DTileset 需去除根节点 transform）
+   */
+  private setObjectMatrix(object: TransformObject, matrix: Cesium.Matrix4) {
+    if (object instanceof Cesium.Cesium3DTileset && object.root) {
+      const rootInverse = Cesium.Matrix4.inverse(
+        object.root.transform,
+        new Cesium.Matrix4()
+      )
+      Cesium.Matrix4.multiply(matrix, rootInverse, object.modelMatrix)
+      return
+    }
+    Cesium.Matrix4.clone(matrix, object.modelMatrix)
+  }
+
+  /**
+   * 将矩阵分解为平移、旋转、缩放 (TRS)，满足 M = T * R * S
+   * 旋转由 Gram-Schmidt 正交化得到，已有的剪切分量会被舍弃
+   * 无法分解（如某轴缩放为 0）时返回 undefined
+   */
+  private decomposeMatrix(matrix: Cesium.Matrix4): MatrixTRS | undefined {
+    const columns = [0, 1, 2].map((i) => {
+      const column = Cesium.Matrix4.getColumn(
+        matrix,
+        i,
+        new Cesium.Cartesian4()
+      )
+      return new Cesium.Cartesian3(column.x, column.y, column.z)
+    })
+    const [x, y] = columns
+    const scale = new Cesium.Cartesian3(Cesium.Cartesian3.magnitude(x), 0, 0)
+    if (scale.x < Cesium.Math.EPSILON10) return undefined
+    Cesium.Cartesian3.normalize(x, x)
+
+    // y 去除在 x 上的投影后正交
+    Cesium.Cartesian3.subtract(
+      y,
+      Cesium.Cartesian3.multiplyByScalar(
+        x,
+        Cesium.Cartesian3.dot(x, y),
+        new Cesium.Cartesian3()
+      ),
+      y
+    )
+    scale.y = Cesium.Cartesian3.magnitude(y)
+    if (scale.y < Cesium.Math.EPSILON10) return undefined
+    Cesium.Cartesian3.normalize(y, y)
+
+    // z 由叉乘得到以保证右手系，缩放取原 z 列在其上的投影（镜像时为负）
+    const z = Cesium.Cartesian3.cross(x, y, new Cesium.Cartesian3())
+    scale.z = Cesium.Cartesian3.dot(z, columns[2])
+    if (Math.abs(scale.z) < Cesium.Math.EPSILON10) return undefined
+
+    const rotation = new Cesium.Matrix3()
+    Cesium.Matrix3.setColumn(rotation, 0, x, rotation)
+    Cesium.Matrix3.setColumn(rotation, 1, y, rotation)
+    Cesium.Matrix3.setColumn(rotation, 2, z, rotation)
+    return {
+      translation: Cesium.Matrix4.getTranslation(
+        matrix,
+        new Cesium.Cartesian3()
+      ),
+      rotation,
+      scale,
+    }
+  }
+
+  /**
+   * 由平移、旋转、缩放组合矩阵：M = T * R * S
+   */
+  private composeMatrix(
+    { translation, rotation, scale }: MatrixTRS,
+    result = new Cesium.Matrix4()
+  ) {
+    Cesium.Matrix4.fromRotationTranslation(rotation, translation, result)
+    return Cesium.Matrix4.multiplyByScale(result, scale, result)
+  }
+
+  /**
+   * 按描边配置创建、更新或移除内置的描边后处理
+   * 关闭描边或提供了自定义适配器时不占用 scene.postProcessStages
+   */
+  private initOutlineStage() {
+    const { enabled, adapter, color, thickness } = this._outline
+    if (!enabled || adapter) {
+      if (this._outlineStage) {
+        this.viewer.scene.postProcessStages.remove(this._outlineStage)
+        this._outlineStage = undefined
+        this._edgeDetectionStage = undefined
+      }
+      return
+    }
+
+    if (!this._outlineStage) {
+      if (
+        !Cesium.PostProcessStageLibrary.isSilhouetteSupported(this.viewer.scene)
+      ) {
+        console.warn("当前环境不支持模型描边 (Silhouette)")
+        return
+      }
+      const edgeDetection =
+        Cesium.PostProcessStageLibrary.createEdgeDetectionStage()
+      // @ts-ignore
+      edgeDetection.selected = []
+      this._edgeDetectionStage = edgeDetection
+
+      this._outlineStage = Cesium.PostProcessStageLibrary.createSilhouetteStage(
+        [edgeDetection]
+      )
+      this.viewer.scene.postProcessStages.add(this._outlineStage)
+    }
+    this._edgeDetectionStage.uniforms.color = color ?? Cesium.Color.YELLOW
+    this._edgeDetectionStage.uniforms.length = thickness ?? 0.01
+  }
+
+  // ==================================================================================
+  //                                  1. 几何体与碰撞体创建
+  // ==================================================================================
+
+  /**
+   * 显示当前模式的手柄
+   * 各模式 (旋转模式另按手柄样式区分) 的图元创建后缓存，切换模式时直接复用；样式变化时清空缓存
+   */
+  private createGizmo() {
+    this.restoreHighlight()
+    this.clearRotateFeedback()
+    this.clearMeasurement()
+    this.clearGhost()
+    if (this._styleDirty) this.clearHandleCache()
+    this._styleDirty = false
+
+    const key =
+      this.gizmoMode === "rotate"
+        ? `rotate:${this._rotationStyle}`
+        : this.gizmoMode
+    let handles = this._handleCache[key]
+    if (!handles) {
+      handles = {
+        primitives: this._primitives.add(new Cesium.PrimitiveCollection()),
+        axisPrimitives: {},
+        colliders: [],
+      }
+      this._handleCache[key] = handles
+      this._handleCollection = handles.primitives
+      this._axisPrimitives = handles.axisPrimitives
+      this._colliders = handles.colliders
+
+      if (this.gizmoMode === "translate") {
+        this.createTranslationGizmo()
+      } else if (this.gizmoMode === "rotate") {
+        this.createRotationGizmo()
+      } else if (this.gizmoMode === "scale") {
+        this.createScaleGizmo()
+      } else if (this.gizmoMode === "universal") {
+        this.createTranslationGizmo()
+        this.createRotationGizmo()
+        this.createScaleGizmo()
+      }
+      this.createCenterGizmo()
+    }
+
+    Object.values(this._handleCache).forEach((cached) => {
+      cached.primitives.show = cached === handles
+    })
+    this._axisPrimitives = handles.axisPrimitives
+    this._colliders = handles.colliders
+
+    // 复用的图元可能残留上次的淡出透明度
+    this._handleOpacity = {}
+    this._colliders.forEach(({ id }) => this.applyHandleColor(id))
+    this.applyAxisLock()
+    this.markDirty()
+  }
+
+  /**
+   * 隐藏全部手柄，缓存的图元保留以便再次绑定时复用
+   */
+  private hideGizmo() {
+    this.restoreHighlight()
+    this.clearRotateFeedback()
+    this.clearMeasurement()
+    this.clearGhost()
+    Object.values(this._handleCache).forEach((cached) => {
+      cached.primitives.show = false
+    })
+    this._axisPrimitives = {}
+    this._colliders = []
+  }
+
+  /**
+   * 销毁缓存的手柄图元
+   */
+  private clearHandleCache() {
+    Object.values(this._handleCache).forEach((cached) => {
+      this._primitives.remove(cached.primitives)
+    })
+    this._handleCache = {}
+    this._handleCollection = undefined
+    this._axisPrimitives = {}
+    this._colliders = []
+  }
+
+  private getAppearance(color: Cesium.Color, isLine: boolean = false) {
+    const renderState = {
+      depthTest: { enabled: false }, // 禁用深度测试，透视显示
+      depthMask: false,
+      cull: { enabled: false }, // 双面渲染
+      blending: Cesium.BlendingState.ALPHA_BLEND,
+    }
+    if (isLine) {
+      return new Cesium.PolylineColorAppearance({
+        translucent: true,
+        renderState: renderState,
+      })
+    } else {
+      return new Cesium.PerInstanceColorAppearance({
+        translucent: true,
+        flat: true,
+        renderState: renderState,
+      })
+    }
+  }
+
+  private addCollider(
+    key: string,
+    id: GizmoId,
+    min: Cesium.Cartesian3,
+    max: Cesium.Cartesian3,
+    type: ColliderType = "BOX",
+    extraParams: any = {}
+  ) {
+    this._colliders.push({
+      id,
+      type,
+      localMin: min,
+      localMax: max,
+      primitiveKey: key,
+      ...extraParams,
+    })
+  }
+
+  private createCenterGizmo() {
+    // 保持不透明
+    const color = this._style.neutralColor.clone()
+    const type = this.gizmoMode === "scale" ? "scale" : "center"
+    const id = { axis: "CENTER", type: type, name: "CENTER" } as GizmoId
+
+    const radius = this._style.centerRadius
+    const geometry = new Cesium.EllipsoidGeometry({
+      radii: new Cesium.Cartesian3(radius, radius, radius),
+      vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
+    })
+
+    const instance = new Cesium.GeometryInstance({
+      geometry: geometry,
+      modelMatrix: Cesium.Matrix4.IDENTITY,
+      attributes: {
+        color: Cesium.ColorGeometryInstanceAttribute.fromColor(color),
+      },
+      id: id,
+    })
+
+    const primitive = new Cesium.Primitive({
+      geometryInstances: [instance],
+      appearance: this.getAppearance(color, false),
+      asynchronous: false,
+    })
+
+    this._handleCollection!.add(primitive)
+    this._axisPrimitives["CENTER"] = primitive
+
+    this.addCollider(
+      "CENTER",
+      id,
+      new Cesium.Cartesian3(-radius, -radius, -radius),
+      new Cesium.Cartesian3(radius, radius, radius),
+      "BOX"
+    )
+  }
+
+  private createTranslationGizmo() {
+    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
+    const colors = this._style.colors
+    const universal = this.gizmoMode === "universal"
+    const directions = {
+      X: new Cesium.Cartesian3(1, 0, 0),
+      Y: new Cesium.Cartesian3(0, 1, 0),
+      Z: new Cesium.Cartesian3(0, 0, 1),
+    }
+
+    axes.forEach((axis) => {
+      const gizmoId = {
+        axis,
+        type: "translate",
+        name: `TRANS_${axis}`,
+      } as GizmoId
+      const arrowLength = this._style.arrowLength
+      const lineLength = 1.0
+
+      // 轴线避让中心球
+      const startPoint = Cesium.Cartesian3.multiplyByScalar(
+        directions[axis],
+        this._style.centerRadius,
+        new Cesium.Cartesian3()
+      )
+
+      const lineInstance = new Cesium.GeometryInstance({
+        geometry: new Cesium.PolylineGeometry({
+          positions: [startPoint, directions[axis]],
+          width: this._style.axisWidth,
+          vertexFormat: Cesium.PolylineColorAppearance.VERTEX_FORMAT,
+          arcType: Cesium.ArcType.NONE,
+        }),
+        attributes: {
+          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
+        },
+        id: gizmoId,
+      })
+
+      const arrowInstance = new Cesium.GeometryInstance({
+        geometry: new Cesium.CylinderGeometry({
+          length: arrowLength,
+          topRadius: 0,
+          bottomRadius: this._style.arrowRadius,
+          vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
+        }),
+        modelMatrix: Cesium.Matrix4.IDENTITY,
+        attributes: {
+          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
+        },
+        id: gizmoId,
+      })
+
+      const pLine = new Cesium.Primitive({
+        geometryInstances: [lineInstance],
+        appearance: this.getAppearance(colors[axis], true),
+        asynchronous: false,
+      })
+      const pArrow = new Cesium.Primitive({
+        geometryInstances: [arrowInstance],
+        appearance: this.getAppearance(colors[axis], false),
+        asynchronous: false,
+      })
+
+      this._handleCollection!.add(pLine)
+      this._handleCollection!.add(pArrow)
+
+      const keyLine = `${axis}_line`
+      const keyArrow = `${axis}_arrow`
+      this._axisPrimitives[keyLine] = pLine
+      this._axisPrimitives[keyArrow] = pArrow
+
+      const colliderWidth = 0.1
+      const totalLen = lineLength + arrowLength
+      // 万能模式下轴线内段留给缩放手柄
+      const s = universal ? this.scaleHandleDistance + 0.1 : 0
+
+      let min = new Cesium.Cartesian3()
+      let max = new Cesium.Cartesian3()
+
+      if (axis === "X") {
+        min = new Cesium.Cartesian3(s, -colliderWidth, -colliderWidth)
+        max = new Cesium.Cartesian3(totalLen, colliderWidth, colliderWidth)
+      } else if (axis === "Y") {
+        min = new Cesium.Cartesian3(-colliderWidth, s, -colliderWidth)
+        max = new Cesium.Cartesian3(colliderWidth, totalLen, colliderWidth)
+      } else {
+        min = new Cesium.Cartesian3(-colliderWidth, -colliderWidth, s)
+        max = new Cesium.Cartesian3(colliderWidth, colliderWidth, totalLen)
+      }
+      this.addCollider(keyLine, gizmoId, min, max, "BOX")
+    })
+
+    this.createPlaneHandles("translate")
+  }
+
+  /**
+   * 创建双轴平面手柄：平移模式下在平面内移动，缩放模式下两轴等比缩放
+   */
+  private createPlaneHandles(type: "translate" | "scale") {
+    const colors = this._style.colors
+    const start = 0.15
+    const end = 0.45
+    const thickness = 0.01
+
+    const planes = [
+      {
+        axis: "XY" as const,
+        color: colors.Z.withAlpha(this._style.planeAlpha),
+        min: new Cesium.Cartesian3(start, start, -thickness),
+        max: new Cesium.Cartesian3(end, end, thickness),
+      },
+      {
+        axis: "YZ" as const,
+        color: colors.X.withAlpha(this._style.planeAlpha),
+        min: new Cesium.Cartesian3(-thickness, start, start),
+        max: new Cesium.Cartesian3(thickness, end, end),
+      },
+      {
+        axis: "ZX" as const,
+        color: colors.Y.withAlpha(this._style.planeAlpha),
+        min: new Cesium.Cartesian3(start, -thickness, start),
+        max: new Cesium.Cartesian3(end, thickness, end),
+      },
+    ]
+
+    planes.forEach((plane) => {
+      const gizmoId = {
+        axis: plane.axis,
+        type,
+        name:
+          type === "translate" ? `PLANE_${plane.axis}` : `SCALE_${plane.axis}`,
+      } as GizmoId
+
+      const boxGeometry = new Cesium.BoxGeometry({
+        minimum: plane.min,
+        maximum: plane.max,
+        vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
+      })
+
+      const instance = new Cesium.GeometryInstance({
+        geometry: boxGeometry,
+        modelMatrix: Cesium.Matrix4.IDENTITY,
+        attributes: {
+          color: Cesium.ColorGeometryInstanceAttribute.fromColor(plane.color),
+        },
+        id: gizmoId,
+      })
+
+      const primitive = new Cesium.Primitive({
+        geometryInstances: [instance],
+        appearance: this.getAppearance(plane.color, false),
+        asynchronous: false,
+      })
+
+      const key = `PLANE_${plane.axis}`
+      this._handleCollection!.add(primitive)
+      this._axisPrimitives[key] = primitive
+      this.addCollider(key, gizmoId, plane.min, plane.max, "BOX")
+    })
+  }
+
+  /**
+   * 创建 90度扇形旋转手柄 (Polyline 线框版)
+   */
+  private createRotationGizmo() {
+    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
+    const colors = this._style.colors
+    const radius = this.rotationRadius
+    // 线宽 (像素单位，注意：PolylineWidth 在某些 WebGL 实现中受限，通常最大为 1px 或需特殊处理，但在 Cesium 中通常有效)
+    const lineWidth = this._style.ringWidth
+
+    // 1. 核心工具：根据轴向，直接生成 90度 圆弧点
+    // 用于 扇形面(Fan) 和 边框线(Rim)
+    // 万能模式下扇形会遮挡平移与缩放手柄，固定使用圆环
+    const universal = this.gizmoMode === "universal"
+    const ring = this._rotationStyle === "ring" || universal
+    const arcDegrees = ring ? 360 : 90
+    const getArcPoints = (axis: string) => {
+      const positions: Cesium.Cartesian3[] = []
+      // 精度：5度一个点
+      for (let i = 0; i <= arcDegrees; i += 5) {
+        const rad = Cesium.Math.toRadians(i)
+        const c = Math.cos(rad) * radius
+        const s = Math.sin(rad) * radius
+
+        if (axis === "Z") {
+          // Z轴: XY平面 (X -> Y)
+          positions.push(new Cesium.Cartesian3(c, s, 0))
+        } else if (axis === "X") {
+          // X轴: YZ平面 (Y -> Z)
+          positions.push(new Cesium.Cartesian3(0, c, s))
+        } else if (axis === "Y") {
+          // Y轴: ZX平面 (Z -> X)
+          positions.push(new Cesium.Cartesian3(s, 0, c))
+        }
+      }
+      return positions
+    }
+
+    axes.forEach((axis) => {
+      const gizmoId = { axis, type: "rotate", name: `ROT_${axis}` } as GizmoId
+
+      // 获取当前轴的路径点
+      const arcPoints = getArcPoints(axis)
+
+      // ==========================================
+      // A. 创建扇形面 (Fan) - 手动构建 Mesh
+      // ==========================================
+      const fanPositions: number[] = []
+      const fanIndices: number[] = []
+
+      // 圆心 (0,0,0)
+      fanPositions.push(0, 0, 0)
+      // 添加圆弧点
+      arcPoints.forEach((p) => fanPositions.push(p.x, p.y, p.z))
+
+      // 构建三角形 (Center -> Current -> Next)
+      for (let i = 1; i < arcPoints.length; i++) {
+        fanIndices.push(0, i, i + 1)
+      }
+
+      const attributes = new Cesium.GeometryAttributes()
+      attributes.position = new Cesium.GeometryAttribute({
+        componentDatatype: Cesium.ComponentDatatype.DOUBLE,
+        componentsPerAttribute: 3,
+        values: new Float64Array(fanPositions),
+      })
+
+      const fanGeometry = new Cesium.Geometry({
+        attributes,
+        indices: new Uint16Array(fanIndices),
+        primitiveType: Cesium.PrimitiveType.TRIANGLES,
+        boundingSphere: new Cesium.BoundingSphere(
+          Cesium.Cartesian3.ZERO,
+          radius
+        ),
+      })
+
+      // ==========================================
+      // B. 创建边框线 (Rim) - 使用 Polyline
+      // ==========================================
+      // 为了让线框看起来闭合，我们可以把圆心也加进去，或者只画圆弧。
+      // UE5 风格通常有两条直边 + 一条圆弧。
+      // 这里构建：圆心 -> 第一点 -> ...弧线... -> 最后点 -> 圆心
+      const linePositions = [...arcPoints]
+
+      const rimGeometry = new Cesium.PolylineGeometry({
+        positions: linePositions,
+        width: lineWidth,
+        vertexFormat: Cesium.PolylineColorAppearance.VERTEX_FORMAT,
+        arcType: Cesium.ArcType.NONE, // 关键：禁用测地线，直接连线
+      })
+
+      // ==========================================
+      // C. 创建 Primitive
+      // ==========================================
+      const modelMatrix = Cesium.Matrix4.IDENTITY
+
+      // 1. 扇形面实例
+      const fanColor = colors[axis].withAlpha(this._style.fanAlpha)
+      const fanInstance = new Cesium.GeometryInstance({
+        geometry: fanGeometry,
+        modelMatrix: modelMatrix,
+        attributes: {
+          color: Cesium.ColorGeometryInstanceAttribute.fromColor(fanColor),
+        },
+        id: gizmoId,
+      })
+
+      // 2. 边框线实例
+      const rimInstance = new Cesium.GeometryInstance({
+        geometry: rimGeometry,
+        modelMatrix: modelMatrix,
+        attributes: {
+          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
+        },
+        id: gizmoId,
+      })
+
+      // 注意：线和面需要不同的 Appearance，所以最好分成两个 Primitive，或者使用支持两者的特殊写法。
+      // 但最简单稳妥的方法是：加两个 Primitive。
+      // 为了管理方便，我们还是把它们加到一个 update 逻辑里。
+
+      // Primitive 1: 扇形面
+      const fanPrimitive = new Cesium.Primitive({
+        geometryInstances: [fanInstance],
+        appearance: this.getAppearance(colors[axis], false), // 面着色
+        asynchronous: false,
+      })
+
+      // Primitive 2: 边框线
+      const rimPrimitive = new Cesium.Primitive({
+        geometryInstances: [rimInstance],
+        appearance: this.getAppearance(colors[axis], true), // 线着色
+        asynchronous: false,
+      })
+
+      // 圆环样式只保留边框线，扇形在拖拽时按扫过的角度动态生成
+      if (!ring) this._handleCollection!.add(fanPrimitive)
+      this._handleCollection!.add(rimPrimitive)
+
+      // 存入引用以便 update (存一个对象包含两者)
+      // 这里我们需要修改 _axisPrimitives 的类型定义，或者简单地存入一个复合对象
+      // 为了不破坏 update 逻辑，我们可以利用 JS 对象的动态性，或者给 key 加后缀
+      if (!ring) this._axisPrimitives[`${axis}_fan`] = fanPrimitive
+      this._axisPrimitives[`${axis}_rim`] = rimPrimitive
+      // 同时保留 axis key 指向其中一个（通常没用，update里会改）
+      // 我们将在 update 里专门处理 _fan 和 _rim 后缀
+
+      // ==========================================
+      // D. 碰撞体 (Sector)
+      // ==========================================
+      const tube = 0.05 // 虚拟厚度
+      const r = radius + tube
+      // 圆环覆盖全部四个象限，扇形只覆盖第一象限
+      const l = ring ? -r : 0
+      let min = new Cesium.Cartesian3()
+      let max = new Cesium.Cartesian3()
+      let ringNormalAxis: 0 | 1 | 2 = 2
+
+      if (axis === "Z") {
+        min = new Cesium.Cartesian3(l, l, -tube)
+        max = new Cesium.Cartesian3(r, r, tube)
+        ringNormalAxis = 2
+      } else if (axis === "X") {
+        min = new Cesium.Cartesian3(-tube, l, l)
+        max = new Cesium.Cartesian3(tube, r, r)
+        ringNormalAxis = 0
+      } else if (axis === "Y") {
+        min = new Cesium.Cartesian3(l, -tube, l)
+        max = new Cesium.Cartesian3(r, tube, r)
+        ringNormalAxis = 1
+      }
+
+      this.addCollider(
+        ring ? `${axis}_rim` : `${axis}_fan`,
+        gizmoId,
+        min,
+        max,
+        "SECTOR",
+        {
+          radius: radius,
+          tube: tube, // 点击容差
+          ringNormalAxis: ringNormalAxis,
+          startAngle: 0,
+          endAngle: ring ? Math.PI * 2 : Math.PI / 2,
+        }
+      )
+    })
+
+    // ==========================================
+    // E. 视线轴外环：始终正对相机，绕视线方向旋转
+    // ==========================================
+    if (universal) return
+    const viewRadius = 1.3
+    const viewTube = 0.025
+    const viewId = { axis: "VIEW", type: "rotate", name: "ROT_VIEW" } as GizmoId
+    const viewPositions: Cesium.Cartesian3[] = []
+    for (let i = 0; i <= 360; i += 5) {
+      const rad = Cesium.Math.toRadians(i)
+      viewPositions.push(
+        new Cesium.Cartesian3(
+          Math.cos(rad) * viewRadius,
+          Math.sin(rad) * viewRadius,
+          0
+        )
+      )
+    }
+    const viewPrimitive = new Cesium.Primitive({
+      geometryInstances: [
+        new Cesium.GeometryInstance({
+          geometry: new Cesium.PolylineGeometry({
+            positions: viewPositions,
+            width: lineWidth,
+            vertexFormat: Cesium.PolylineColorAppearance.VERTEX_FORMAT,
+            arcType: Cesium.ArcType.NONE,
+          }),
+          attributes: {
+            color: Cesium.ColorGeometryInstanceAttribute.fromColor(
+              this._style.neutralColor
+            ),
+          },
+          id: viewId,
+        }),
+      ],
+      appearance: this.getAppearance(this._style.neutralColor, true),
+      asynchronous: false,
+    })
+    this._handleCollection!.add(viewPrimitive)
+    this._axisPrimitives["VIEW_rim"] = viewPrimitive
+
+    const vr = viewRadius + viewTube
+    this.addCollider(
+      "VIEW_rim",
+      viewId,
+      new Cesium.Cartesian3(-vr, -vr, -viewTube),
+      new Cesium.Cartesian3(vr, vr, viewTube),
+      "SECTOR",
+      {
+        radius: viewRadius,
+        tube: viewTube,
+        ringNormalAxis: 2,
+        startAngle: 0,
+        endAngle: Math.PI * 2,
+      }
+    )
+  }
+
+  private createScaleGizmo() {
+    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
+    const colors = this._style.colors
+    const universal = this.gizmoMode === "universal"
+    const directions = {
+      X: new Cesium.Cartesian3(1, 0, 0),
+      Y: new Cesium.Cartesian3(0, 1, 0),
+      Z: new Cesium.Cartesian3(0, 0, 1),
+    }
+
+    axes.forEach((axis) => {
+      const gizmoId = { axis, type: "scale", name: `SCALE_${axis}` } as GizmoId
+
+      const startPoint = Cesium.Cartesian3.multiplyByScalar(
+        directions[axis],
+        this._style.centerRadius,
+        new Cesium.Cartesian3()
+      )
+
+      const lineInstance = new Cesium.GeometryInstance({
+        geometry: new Cesium.PolylineGeometry({
+          positions: [startPoint, directions[axis]],
+          width: this._style.axisWidth,
+          vertexFormat: Cesium.PolylineColorAppearance.VERTEX_FORMAT,
+          arcType: Cesium.ArcType.NONE,
+        }),
+        attributes: {
+          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
+        },
+        id: gizmoId,
+      })
+
+      const halfBox = this._style.boxSize / 2
+      const boxGeometry = new Cesium.BoxGeometry({
+        minimum: new Cesium.Cartesian3(-halfBox, -halfBox, -halfBox),
+        maximum: new Cesium.Cartesian3(halfBox, halfBox, halfBox),
+        vertexFormat: Cesium.PerInstanceColorAppearance.VERTEX_FORMAT,
+      })
+      const boxInstance = new Cesium.GeometryInstance({
+        geometry: boxGeometry,
+        modelMatrix: Cesium.Matrix4.IDENTITY,
+        attributes: {
+          color: Cesium.ColorGeometryInstanceAttribute.fromColor(colors[axis]),
+        },
+        id: gizmoId,
+      })
+
+      const pLine = new Cesium.Primitive({
+        geometryInstances: [lineInstance],
+        appearance: this.getAppearance(colors[axis], true),
+        asynchronous: false,
+      })
+      const pBox = new Cesium.Primitive({
+        geometryInstances: [boxInstance],
+        appearance: this.getAppearance(colors[axis], false),
+        asynchronous: false,
+      })
+
+      const keyLine = `${axis}_line`
+      const keyBox = `${axis}_box`
+
+      // 万能模式下轴线由平移手柄绘制，缩放手柄只保留方块
+      if (!universal) {
+        this._handleCollection!.add(pLine)
+        this._axisPrimitives[keyLine] = pLine
+      }
+      this._handleCollection!.add(pBox)
+      this._axisPrimitives[keyBox] = pBox
+
+      const colliderWidth = 0.1
+      if (universal) {
+        // 只拾取方块本身 (方块局部坐标)
+        this.addCollider(
+          keyBox,
+          gizmoId,
+          new Cesium.Cartesian3(-colliderWidth, -colliderWidth, -colliderWidth),
+          new Cesium.Cartesian3(colliderWidth, colliderWidth, colliderWidth),
+          "BOX"
+        )
+        return
+      }
+
+      let min = new Cesium.Cartesian3()
+      let max = new Cesium.Cartesian3()
+      if (axis === "X") {
+        min = new Cesium.Cartesian3(0, -colliderWidth, -colliderWidth)
+        max = new Cesium.Cartesian3(1.1, colliderWidth, colliderWidth)
+      } else if (axis === "Y") {
+        min = new Cesium.Cartesian3(-colliderWidth, 0, -colliderWidth)
+        max = new Cesium.Cartesian3(colliderWidth, 1.1, colliderWidth)
+      } else {
+        min = new Cesium.Cartesian3(-colliderWidth, -colliderWidth, 0)
+        max = new Cesium.Cartesian3(colliderWidth, colliderWidth, 1.1)
+      }
+      this.addCollider(keyLine, gizmoId, min, max, "BOX")
+    })
+
+    // 万能模式下平面手柄用于平移
+    if (!universal) this.createPlaneHandles("scale")
+  }
+
+  /**
+   * 缩放方块到中心的距离 (Gizmo 局部单位)，万能模式下移到轴线内段以避开平移箭头
+   */
+  private get scaleHandleDistance() {
+    return this.gizmoMode === "universal" ? 0.5 : 1.0
+  }
+
+  /**
+   * 旋转手柄半径 (Gizmo 局部单位)，万能模式下放大到平移箭头之外
+   */
+  private get rotationRadius() {
+    return this.gizmoMode === "universal" ? 1.35 : 1.0
+  }
+
+  // ==================================================================================
+  //                                  2. 帧更新循环
+  // ==================================================================================
+
+  private update() {
+    if (!this.center || !this.isUpdateDirty(this.center)) return
+
+    const scene = this.viewer.scene
+    const camera = scene.camera
+    const scratch = this._scratch
+
+    // 1. 计算基础参数
+    Cesium.Cartesian3.clone(this.center, scratch.sphere.center)
+    scratch.sphere.radius = 0
+    const pixelSize = camera.getPixelSize(
+      scratch.sphere,
+      this.viewer.canvas.clientWidth,
+      this.viewer.canvas.clientHeight
+    )
+    const baseScale = pixelSize * this.axisLength
+    const frameMatrix = this.getGizmoFrame(
+      this.center,
+      this.gizmoMode,
+      scratch.frame
+    )
+    const inverseFrame = Cesium.Matrix4.inverseTransformation(
+      frameMatrix,
+      scratch.inverseFrame
+    )
+
+    // 2. 计算相机在 TransformGizmo 局部坐标系下的位置向量
+    const centerToCamera = Cesium.Cartesian3.subtract(
+      camera.position,
+      this.center,
+      scratch.vector
+    )
+    const localCameraDir = Cesium.Matrix4.multiplyByPointAsVector(
+      inverseFrame,
+      centerToCamera,
+      scratch.localCameraDir
+    )
+    Cesium.Cartesian3.normalize(localCameraDir, localCameraDir)
+
+    // 缩放手柄始终沿对象自身坐标轴：万能模式下的缩放方块单独使用对象坐标系
+    let scaleFrame = frameMatrix
+    let scaleCameraDir = localCameraDir
+    if (this.gizmoMode === "universal") {
+      scaleFrame = this.getGizmoFrame(this.center, "scale", scratch.scaleFrame)
+      scaleCameraDir = Cesium.Matrix4.multiplyByPointAsVector(
+        Cesium.Matrix4.inverseTransformation(scaleFrame, scratch.inverseFrame),
+        centerToCamera,
+        scratch.scaleCameraDir
+      )
+      Cesium.Cartesian3.normalize(scaleCameraDir, scaleCameraDir)
+    }
+    this.updateHandleFade(localCameraDir, scaleCameraDir)
+
+    // 更新中心点
+    const centerPrimitive = this._axisPrimitives["CENTER"]
+    if (centerPrimitive) {
+      let centerScale = baseScale
+      if (
+        this._dragMode === "scale" &&
+        this._isDragging &&
+        this._dragAxisName === "CENTER"
+      ) {
+        centerScale *= this._activeScale.x
+      }
+      Cesium.Matrix4.multiplyByUniformScale(
+        frameMatrix,
+        centerScale,
+        centerPrimitive.modelMatrix
+      )
+    }
+
+    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
+    const directions = scratch.directions
+
+    axes.forEach((axis) => {
+      let axisDragScale = 1.0
+      if (axis === "X") axisDragScale = this._activeScale.x
+      if (axis === "Y") axisDragScale = this._activeScale.y
+      if (axis === "Z") axisDragScale = this._activeScale.z
+
+      const totalLen = baseScale * axisDragScale
+
+      if (this.gizmoMode === "rotate" || this.gizmoMode === "universal") {
+        // =========================================================
+        // 【核心功能实现】旋转轴：根据相机视角切换象限
+        // =========================================================
+        const pFan = this._axisPrimitives[`${axis}_fan`]
+        const pRim = this._axisPrimitives[`${axis}_rim`]
+
+        if (pRim) {
+          // 1. 计算当前轴平面上的视角角度
+          let angle = 0
+          let rotationAxis = Cesium.Cartesian3.UNIT_Z
+
+          if (axis === "Z") {
+            // Z轴控制：XY平面。计算 XY 平面上的角度。
+            // Math.atan2(y, x) 返回 (-PI, PI)
+            angle = Math.atan2(localCameraDir.y, localCameraDir.x)
+            rotationAxis = Cesium.Cartesian3.UNIT_Z
+          } else if (axis === "X") {
+            // X轴控制：YZ平面。
+            // 我们的几何体是 0->90 (Y->Z)，所以基准是 Y 轴
+            angle = Math.atan2(localCameraDir.z, localCameraDir.y)
+            rotationAxis = Cesium.Cartesian3.UNIT_X
+          } else if (axis === "Y") {
+            // Y轴控制：ZX平面。
+            // 几何体是 0->90 (Z->X)，基准是 Z 轴
+            angle = Math.atan2(localCameraDir.x, localCameraDir.z)
+            rotationAxis = Cesium.Cartesian3.UNIT_Y
+          }
+
+          // 2. 象限吸附 (Snap to Quadrant)
+          // 我们生成的扇形是 0~90 度。
+          // 我们希望扇形的中心 (45度) 大致对准相机。
+          // 算法：将角度减去 45度(PI/4)，然后除以 90度(PI/2) 取整，再乘回 90度。
+          // 这样可以将 360 度分为 4 个离散的 90 度区间。
+          // 圆环样式无需切换象限
+          const step = Math.PI / 2
+          const snapAngle = pFan ? Math.floor(angle / step) * step : 0
+
+          // 3. 构造旋转矩阵
+          const quat = Cesium.Quaternion.fromAxisAngle(
+            rotationAxis,
+            snapAngle,
+            scratch.quaternion
+          )
+          const quadrantRotation = Cesium.Matrix3.fromQuaternion(
+            quat,
+            scratch.rotation
+          )
+
+          // 4. 组合最终矩阵：Frame(定位) * QuadrantRot(象限朝向) * Scale(缩放)
+          // 注意矩阵乘法顺序：先缩放，再自身旋转切换象限，最后定位到世界坐标
+          const m = Cesium.Matrix4.multiplyByMatrix3(
+            frameMatrix,
+            quadrantRotation,
+            pRim.modelMatrix
+          )
+          Cesium.Matrix4.multiplyByUniformScale(m, baseScale, m)
+          if (pFan) Cesium.Matrix4.clone(m, pFan.modelMatrix)
+        }
+      }
+
+      if (this.gizmoMode !== "rotate") {
+        // 缩放模式下轴线随拖拽伸缩；平移与万能模式下轴线属于平移手柄，长度固定
+        const lineLen = this.gizmoMode === "scale" ? totalLen : baseScale
+
+        // Frame * 沿轴平移 * 自身旋转 * 缩放
+        const setTipMatrix = (
+          frame: Cesium.Matrix4,
+          rotation: Cesium.Matrix3,
+          tipOffsetDist: number,
+          result: Cesium.Matrix4
+        ) => {
+          const offset = Cesium.Cartesian3.multiplyByScalar(
+            directions[axis],
+            tipOffsetDist,
+            scratch.vector
+          )
+          Cesium.Matrix4.multiplyByTranslation(frame, offset, result)
+          Cesium.Matrix4.multiplyByMatrix3(result, rotation, result)
+          Cesium.Matrix4.multiplyByUniformScale(result, baseScale, result)
+        }
+
+        const pLine = this._axisPrimitives[`${axis}_line`]
+        const pArrow = this._axisPrimitives[`${axis}_arrow`]
+        const pBox = this._axisPrimitives[`${axis}_box`]
+
+        if (pLine) {
+          Cesium.Matrix4.multiplyByUniformScale(
+            frameMatrix,
+            lineLen,
+            pLine.modelMatrix
+          )
+        }
+        if (pArrow) {
+          // 圆锥默认沿 Z 轴，X/Y 轴的箭头需要转向
+          setTipMatrix(
+            frameMatrix,
+            scratch.arrowRotations[axis],
+            baseScale * (1 + this._style.arrowLength / 2),
+            pArrow.modelMatrix
+          )
+        }
+        if (pBox) {
+          setTipMatrix(
+            scaleFrame,
+            Cesium.Matrix3.IDENTITY,
+            this.scaleHandleDistance * totalLen,
+            pBox.modelMatrix
+          )
+        }
+      }
+    })
+
+    // 视线轴外环：局部 Z 轴指向相机
+    const viewRim = this._axisPrimitives["VIEW_rim"]
+    if (viewRim) {
+      const viewRotation = scratch.rotation
+      Cesium.Matrix3.setColumn(viewRotation, 0, camera.rightWC, viewRotation)
+      Cesium.Matrix3.setColumn(viewRotation, 1, camera.upWC, viewRotation)
+      Cesium.Matrix3.setColumn(
+        viewRotation,
+        2,
+        Cesium.Cartesian3.negate(camera.directionWC, scratch.vector),
+        viewRotation
+      )
+      Cesium.Matrix4.fromRotationTranslation(
+        viewRotation,
+        this.center,
+        viewRim.modelMatrix
+      )
+      Cesium.Matrix4.multiplyByUniformScale(
+        viewRim.modelMatrix,
+        baseScale,
+        viewRim.modelMatrix
+      )
+    }
+
+    this.updateRotateFeedbackMatrix(baseScale)
+    if (this._ghostLine) {
+      this._ghostLine.positions = [this._dragStartCenter, this.center]
+    }
+
+    if (this.gizmoMode !== "rotate") {
+      const planes = ["XY", "YZ", "ZX"]
+      planes.forEach((plane) => {
+        const p = this._axisPrimitives[`PLANE_${plane}`]
+        if (p) {
+          Cesium.Matrix4.multiplyByUniformScale(
+            frameMatrix,
+            baseScale,
+            p.modelMatrix
+          )
+        }
+      })
+    }
+  }
+
+  /**
+   * 判断本帧是否需要重新计算手柄矩阵，并记录本次的输入状态
+   * 相机视图与投影、画布尺寸、枢轴点与所有绑定对象的姿态均未变化，且未通过 markDirty 标记时跳过
+   */
+  private isUpdateDirty(center: Cesium.Cartesian3) {
+    const camera = this.viewer.scene.camera
+    const canvas = this.viewer.canvas
+    const last = this._lastUpdate
+    const objects = this.objects
+    const projection = camera.frustum.projectionMatrix
+
+    if (
+      !this._updateDirty &&
+      canvas.clientWidth === last.width &&
+      canvas.clientHeight === last.height &&
+      Cesium.Cartesian3.equals(center, last.center) &&
+      Cesium.Matrix4.equals(camera.viewMatrix, last.view) &&
+      Cesium.Matrix4.equals(projection, last.projection) &&
+      objects.length === last.objects.length &&
+      objects.every((object, index) =>
+        Cesium.Matrix4.equals(object.modelMatrix, last.objects[index])
+      )
+    ) {
+      return false
+    }
+
+    this._updateDirty = false
+    last.width = canvas.clientWidth
+    last.height = canvas.clientHeight
+    Cesium.Cartesian3.clone(center, last.center)
+    Cesium.Matrix4.clone(camera.viewMatrix, last.view)
+    Cesium.Matrix4.clone(projection, last.projection)
+    last.objects = objects.map((object, index) =>
+      Cesium.Matrix4.clone(object.modelMatrix, last.objects[index])
+    )
+    return true
+  }
+
+  /**
+   * 标记手柄需要在下一帧重新计算，所有影响手柄几何的修改都应调用
+   */
+  private markDirty() {
+    this._updateDirty = true
+  }
+
+  // ==================================================================================
+  //                                  3. 交互事件处理 (RayCast 核心)
+  // ==================================================================================
+
+  /**
+   * 几何射线检测
+   * @param position 屏幕坐标
+   * @param tolerance 额外的拾取容差 (像素)
+   */
+  private rayCastGizmo(
+    position: Cesium.Cartesian2,
+    tolerance: number = 0
+  ): GizmoId | null {
+    if (this._colliders.length === 0) return null
+
+    const ray = this.viewer.scene.camera.getPickRay(position)
+    if (!ray) return null
+
+    let minDistance = Number.MAX_VALUE
+    let closestId: GizmoId | null = null
+
+    const inverseModelMatrix = new Cesium.Matrix4()
+    const localRay = new Cesium.Ray()
+    // 手柄局部坐标的 1 个单位在屏幕上约为 axisLength 像素
+    const padding = tolerance / this.axisLength
+    const paddingVector = new Cesium.Cartesian3(padding, padding, padding)
+
+    for (const collider of this._colliders) {
+      const primitive = this._axisPrimitives[collider.primitiveKey]
+      if (!primitive || !primitive.show || this.isHandleFaded(collider.id))
+        continue
+
+      const modelMatrix = primitive.modelMatrix
+
+      try {
+        Cesium.Matrix4.inverse(modelMatrix, inverseModelMatrix)
+      } catch (e) {
+        continue
+      }
+
+      localRay.origin = Cesium.Matrix4.multiplyByPoint(
+        inverseModelMatrix,
+        ray.origin,
+        new Cesium.Cartesian3()
+      )
+      localRay.direction = Cesium.Matrix4.multiplyByPointAsVector(
+        inverseModelMatrix,
+        ray.direction,
+        new Cesium.Cartesian3()
+      )
+
+      const localAABB = new Cesium.AxisAlignedBoundingBox(
+        Cesium.Cartesian3.subtract(
+          collider.localMin,
+          paddingVector,
+          new Cesium.Cartesian3()
+        ),
+        Cesium.Cartesian3.add(
+          collider.localMax,
+          paddingVector,
+          new Cesium.Cartesian3()
+        )
+      )
+      const interval = Cesium.IntersectionTests.rayAxisAlignedBoundingBox(
+        localRay,
+        localAABB,
+        new Cesium.Interval()
+      ) as any
+
+      if (interval) {
+        // --- 扇形检测逻辑 ---
+        if (collider.type === "SECTOR") {
+          const t = interval.start
+          const hitPoint = Cesium.Ray.getPoint(
+            localRay,
+            t,
+            new Cesium.Cartesian3()
+          )
+
+          // 1. 距离中心检测 (剔除太远或太近的点)
+          const r = collider.radius!
+          // 因为包含扇形面，所以从 0 到 radius+buffer 都是有效区域
+          // 如果你只想点中边框，这里要修改 logic
+          // UE5 风格通常整个扇形都能点
+          const buffer = (collider.tube || 0.05) * 4.0 + padding
+          const dist = Cesium.Cartesian3.magnitude(hitPoint)
+
+          // 完整圆环只响应环带本身，避免遮挡圆环内部的其他手柄
+          const fullRing =
+            (collider.endAngle ?? 0) - (collider.startAngle ?? 0) >= Math.PI * 2
+          if (fullRing) {
+            if (Math.abs(dist - r) > buffer) continue
+          } else if (dist > r + buffer) continue
+
+          // 2. 角度检测 (限制在 0-90 度象限内)
+          // 根据 ringNormalAxis 确定平面坐标
+          let u = 0,
+            v = 0
+          if (collider.ringNormalAxis === 2) {
+            u = hitPoint.x
+            v = hitPoint.y
+          } // XY (Z轴)
+          if (collider.ringNormalAxis === 0) {
+            u = hitPoint.y
+            v = hitPoint.z
+          } // YZ (X轴)
+          if (collider.ringNormalAxis === 1) {
+            u = hitPoint.z
+            v = hitPoint.x
+          } // ZX (Y轴)
+
+          // 只有当 u, v 都为正时 (第一象限)，才算击中扇形
+          // 稍微给点容差 -0.05
+          if (!fullRing && (u < -0.05 - padding || v < -0.05 - padding))
+            continue
+        }
+
+        let dist = interval.start
+        if (collider.id.axis === "CENTER") {
+          dist -= 1000.0
+        }
+
+        if (dist < minDistance) {
+          minDistance = dist
+          closestId = collider.id
+        }
+      }
+    }
+
+    return closestId
+  }
+
+  /**
+   * 基于 Pointer Events 监听输入，统一处理鼠标、触控与手写笔
+   */
+  private initControlEvents() {
+    if (this._inputBound) return // 防止重复绑定
+    this._inputBound = true
+
+    const canvas = this.viewer.scene.canvas
+    canvas.addEventListener("pointerdown", this.onPointerDown)
+    canvas.addEventListener("pointermove", this.onPointerMove)
+    canvas.addEventListener("pointerup", this.onPointerUp)
+    canvas.addEventListener("pointercancel", this.onPointerCancel)
+    canvas.addEventListener("keydown", this.onCanvasKeyDown)
+    document.addEventListener("keydown", this.onKeyDown)
+  }
+
+  private removeControlEvents() {
+    if (!this._inputBound) return
+    this._inputBound = false
+
+    const canvas = this.viewer.scene.canvas
+    canvas.removeEventListener("pointerdown", this.onPointerDown)
+    canvas.removeEventListener("pointermove", this.onPointerMove)
+    canvas.removeEventListener("pointerup", this.onPointerUp)
+    canvas.removeEventListener("pointercancel", this.onPointerCancel)
+    canvas.removeEventListener("keydown", this.onCanvasKeyDown)
+    document.removeEventListener("keydown", this.onKeyDown)
+  }
+
+  private onPointerDown = (e: PointerEvent) => {
+    this.focusCanvas()
+
+    if (e.pointerType === "touch") {
+      this._touchPointers.add(e.pointerId)
+      // 多指手势 (如双指缩放) 交给相机处理，取消已开始的拖拽
+      if (this._touchPointers.size > 1) {
+        if (this._isDragging) {
+          this.releasePointer()
+          this.cancelDrag()
+          this.restoreHighlight()
+        }
+        return
+      }
+    }
+
+    if (!this.object) return
+
+    if (e.button === 2) {
+      if (this._isDragging && this.cancelOnRightClick) this.cancelDrag()
+      return
+    }
+    if (e.button !== 0 || this._isDragging) return
+
+    this.updateModifiers(e)
+    const position = this.getPointerPosition(e)
+    if (this.handleDown(position, this.getHitTolerance(e))) {
+      this._dragPointerId = e.pointerId
+      this.viewer.scene.canvas.setPointerCapture(e.pointerId)
+    }
+  }
+
+  private onPointerMove = (e: PointerEvent) => {
+    // 只有在有对象绑定时才响应
+    if (!this.object) return
+    if (e.pointerType === "touch" && this._touchPointers.size > 1) return
+
+    this.updateModifiers(e)
+    const position = this.getPointerPosition(e)
+
+    if (this._isDragging) {
+      if (e.pointerId !== this._dragPointerId) return
+      // 按住左键拖拽时再按下右键，浏览器只派发 button 为 2 的 pointermove，不会派发 pointerdown
+      if (e.button === 2) {
+        if (this.cancelOnRightClick) this.cancelDrag()
+        return
+      }
+      this.handleDrag(position)
+    } else if (e.pointerType !== "touch") {
+      // 触控没有悬停状态
+      this.handleHover(position, this.getHitTolerance(e))
+    }
+  }
+
+  private onPointerUp = (e: PointerEvent) => {
+    this._touchPointers.delete(e.pointerId)
+    if (e.pointerId !== this._dragPointerId) return
+
+    this.releasePointer()
+    if (!this.object) return
+    this.handleUp()
+    if (e.pointerType === "touch") this.restoreHighlight()
+  }
+
+  private onPointerCancel = (e: PointerEvent) => {
+    this._touchPointers.delete(e.pointerId)
+    if (e.pointerId !== this._dragPointerId) return
+
+    this.releasePointer()
+    this.cancelDrag()
+    this.restoreHighlight()
+  }
+
+  private releasePointer() {
+    const canvas = this.viewer.scene.canvas
+    if (
+      this._dragPointerId !== undefined &&
+      canvas.hasPointerCapture(this._dragPointerId)
+    ) {
+      canvas.releasePointerCapture(this._dragPointerId)
+    }
+    this._dragPointerId = undefined
+  }
+
+  /**
+   * 获取指针在画布中的位置 (CSS 像素，与 Cesium 拾取坐标一致)
+   */
+  private getPointerPosition(e: PointerEvent) {
+    const rect = this.viewer.scene.canvas.getBoundingClientRect()
+    return new Cesium.Cartesian2(e.clientX - rect.left, e.clientY - rect.top)
+  }
+
+  /**
+   * 拾取容差 (像素)：触控、手写笔，以及设备主指针为粗略指针 (pointer: coarse) 时使用更大的容差
+   */
+  private getHitTolerance(e: PointerEvent) {
+    const coarse =
+      e.pointerType === "touch" ||
+      e.pointerType === "pen" ||
+      window.matchMedia?.("(pointer: coarse)").matches
+    return coarse ? this.coarseHitTolerance : 0
+  }
+
+  private updateModifiers(e: PointerEvent) {
+    const keys = { shift: e.shiftKey, ctrl: e.ctrlKey, alt: e.altKey }
+    this._snapModifierDown = keys[this.snap.modifier]
+    this._depthModifierDown = keys[this.depthModifier]
+  }
+
+  /**
+   * 启用快捷键时让画布可获得焦点，快捷键只在画布聚焦时生效
+   */
+  private focusCanvas() {
+    if (!this.keyboard.enabled) return
+    const canvas = this.viewer.scene.canvas
+    if (!canvas.hasAttribute("tabindex")) canvas.setAttribute("tabindex", "0")
+    canvas.focus()
+  }
+
+  /**
+   * 快捷键：W/E/R 切换平移/旋转/缩放，X/Y/Z 锁定轴向，
+   * 方向键沿 X/Y 轴、PageUp/PageDown 沿 Z 轴微调
+   */
+  private onCanvasKeyDown = (e: KeyboardEvent) => {
+    if (!this.keyboard.enabled || !this.object || this._isDragging) return
+    if (e.ctrlKey || e.metaKey || e.altKey) return
+
+    const modes: { [key: string]: TransformMode } = {
+      w: "translate",
+      e: "rotate",
+      r: "scale",
+    }
+    const key = e.key.toLowerCase()
+    if (modes[key]) {
+      this.mode = modes[key]
+      e.preventDefault()
+      return
+    }
+    if (key === "x" || key === "y" || key === "z") {
+      const axis = key.toUpperCase() as LockAxis
+      this.lockedAxis = this._lockedAxis === axis ? null : axis
+      e.preventDefault()
+      return
+    }
+
+    const nudges: { [key: string]: [LockAxis, number] } = {
+      ArrowRight: ["X", 1],
+      ArrowLeft: ["X", -1],
+      ArrowUp: ["Y", 1],
+      ArrowDown: ["Y", -1],
+      PageUp: ["Z", 1],
+      PageDown: ["Z", -1],
+    }
+    const nudge = nudges[e.key]
+    if (nudge) {
+      const axis = this._lockedAxis || nudge[0]
+      this.nudge(axis, nudge[1] * this.keyboard.nudgeStep)
+      e.preventDefault()
+    }
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape" && this._isDragging && this.cancelOnEscape) {
+      this.cancelDrag()
+    }
+  }
+
+  /**
+   * 取消当前拖拽，将对象与 Gizmo 恢复到拖拽开始时的状态
+   * 派发 dragCancel 事件，不触发 onUpdate 与 dragEnd，也不记录历史
+   * @returns 是否取消了拖拽
+   */
+  public cancelDrag() {
+    if (!this._isDragging) return false
+
+    this.objects.forEach((object, index) => {
+      const matrix = this._initialModelMatrices[index]
+      if (matrix) object.modelMatrix = matrix.clone()
+    })
+    this.center = this._dragStartCenter.clone()
+    if (this._pivotEditing) this.setCustomPivot(this.center)
+
+    const id = this._dragId
+    this._isDragging = false
+    this._dragId = null
+    this._dragPlane = undefined
+    this._activeScale = new Cesium.Cartesian3(1, 1, 1)
+    this.clearRotateFeedback()
+    this.clearMeasurement()
+    this.clearGhost()
+    if (this._styleDirty) this.createGizmo()
+    this.markDirty()
+    this.setCameraControl(true)
+    this.updateOutlineSelection()
+
+    if (!this._pivotEditing) {
+      this.emit("dragCancel", this.createEvent(id, this._initialModelMatrix))
+    }
+    return true
+  }
+
+  /**
+   * 当前拖拽是否启用吸附：按住修饰键时临时反转 snap.enabled
+   */
+  private isSnapActive() {
+    return this.snap.enabled !== this._snapModifierDown
+  }
+
+  /**
+   * 将数值吸附到步长的整数倍
+   */
+  private snapValue(value: number, step: number) {
+    if (!this.isSnapActive() || !(step > 0)) return value
+    return Math.round(value / step) * step
+  }
+
+  private handleHover(position: Cesium.Cartesian2, tolerance: number = 0) {
+    const previousId = this._highlightedId
+    const pickedId = this.pickGizmo(position, tolerance)
+    if (pickedId) {
+      if (this._highlightedId !== pickedId) {
+        this.restoreHighlight()
+        this.highlightPrimitive(pickedId)
+      }
+    } else {
+      this.restoreHighlight()
+    }
+
+    if (this._highlightedId !== previousId) {
+      this.emit("hoverChange", this.createEvent(this._highlightedId))
+    }
+  }
+
+  private highlightPrimitive(id: GizmoId) {
+    const targetPrimitives: any[] = []
+    const axis = id.axis
+
+    if (axis === "CENTER") {
+      targetPrimitives.push(this._axisPrimitives["CENTER"])
+    } else if (["XY", "YZ", "ZX"].includes(axis)) {
+      targetPrimitives.push(this._axisPrimitives[`PLANE_${axis}`])
+    } else {
+      // 1. 尝试查找旋转轴的部件 (新版逻辑)
+      if (this._axisPrimitives[`${axis}_rim`])
+        targetPrimitives.push(this._axisPrimitives[`${axis}_rim`])
+
+      // 2. 尝试查找平移/缩放轴的部件 (通用逻辑)
+      const keys = [`${axis}_line`, `${axis}_arrow`, `${axis}_box`]
+      keys.forEach((key) => {
+        if (this._axisPrimitives[key])
+          targetPrimitives.push(this._axisPrimitives[key])
+      })
+    }
+
+    // 执行高亮：统一设为黄色
+    targetPrimitives.forEach((p) => {
+      if (!p) return
+      const attributes = p.getGeometryInstanceAttributes(id)
+      if (attributes) {
+        // 高亮时，扇形也稍微加深一点透明度，甚至设为不透明，看你喜好
+        // 这里设为纯黄，显眼
+        attributes.color = Cesium.ColorGeometryInstanceAttribute.toValue(
+          this._style.highlightColor
+        )
+      }
+    })
+
+    this._highlightedId = id
+    this.updateOutlineSelection()
+  }
+
+  private restoreHighlight() {
+    if (this._highlightedId) {
+      this.applyHandleColor(this._highlightedId)
+      this._highlightedId = null
+      this.updateOutlineSelection()
+    }
+  }
+
+  /**
+   * 将手柄的各部件还原为基础颜色，并按当前淡出程度调整透明度
+   */
+  private applyHandleColor(id: GizmoId) {
+    const axis = id.axis
+    const opacity = this._handleOpacity[id.name] ?? 1
+
+    // 1. 确定原始颜色
+    let baseColor: Cesium.Color
+    if (axis === "CENTER" || axis === "VIEW") {
+      baseColor = this._style.neutralColor
+    } else if (["XY", "YZ", "ZX"].includes(axis)) {
+      // 平面颜色需特殊处理
+      if (axis === "XY") baseColor = this._style.colors["Z"]
+      else if (axis === "YZ") baseColor = this._style.colors["X"]
+      else baseColor = this._style.colors["Y"] // ZX -> Y
+    } else {
+      // X, Y, Z 轴的标准颜色
+      // @ts-ignore
+      baseColor = this._style.colors[axis] || this._style.neutralColor
+    }
+
+    // 2. 查找所有相关图元并分别还原
+    // 扇形与平面需要半透明，其他部件不透明
+    const keys = [
+      `${axis}_fan`,
+      `${axis}_rim`,
+      `${axis}_line`,
+      `${axis}_arrow`,
+      `${axis}_box`,
+      `PLANE_${axis}`,
+      "CENTER",
+    ]
+    keys.forEach((key) => {
+      const p = this._axisPrimitives[key]
+      if (!p) return
+      const attr = p.getGeometryInstanceAttributes(id)
+      if (!attr) return
+      let alpha = 1.0
+      if (key.endsWith("_fan")) alpha = this._style.fanAlpha
+      else if (key.startsWith("PLANE_")) alpha = this._style.planeAlpha
+      attr.color = Cesium.ColorGeometryInstanceAttribute.toValue(
+        baseColor.withAlpha(alpha * opacity)
+      )
+    })
+  }
+
+  /**
+   * 淡出接近视线方向的手柄：轴向手柄与视线夹角、平面手柄及旋转环所在平面与视线的掠射角
+   * 小于 15° 时开始变淡，小于 5° 时完全透明且不可拾取
+   * @param localCameraDir Gizmo 坐标系下由中心指向相机的单位向量
+   */
+  private updateHandleFade(
+    localCameraDir: Cesium.Cartesian3,
+    scaleCameraDir: Cesium.Cartesian3 = localCameraDir
+  ) {
+    const fadeStart = Cesium.Math.toRadians(15)
+    const fadeEnd = Cesium.Math.toRadians(5)
+    const directions = {
+      X: Cesium.Cartesian3.UNIT_X,
+      Y: Cesium.Cartesian3.UNIT_Y,
+      Z: Cesium.Cartesian3.UNIT_Z,
+    }
+
+    this._colliders.forEach(({ id }) => {
+      const cameraDir = id.type === "scale" ? scaleCameraDir : localCameraDir
+      let angle: number
+      if (
+        id.type === "rotate" &&
+        (id.axis === "X" || id.axis === "Y" || id.axis === "Z")
+      ) {
+        // 旋转环的法线即旋转轴，视线接近环平面时环退化为一条线
+        const dot = Cesium.Cartesian3.dot(cameraDir, directions[id.axis])
+        angle = Math.asin(Cesium.Math.clamp(Math.abs(dot), 0, 1))
+      } else if (id.type !== "translate" && id.type !== "scale") {
+        return
+      } else if (id.axis === "X" || id.axis === "Y" || id.axis === "Z") {
+        const dot = Cesium.Cartesian3.dot(cameraDir, directions[id.axis])
+        angle = Math.acos(Cesium.Math.clamp(Math.abs(dot), 0, 1))
+      } else if (id.axis === "XY" || id.axis === "YZ" || id.axis === "ZX") {
+        const normal =
+          directions[({ XY: "Z", YZ: "X", ZX: "Y" } as const)[id.axis]]
+        const dot = Cesium.Cartesian3.dot(cameraDir, normal)
+        angle = Math.asin(Cesium.Math.clamp(Math.abs(dot), 0, 1))
+      } else {
+        return
+      }
+
+      // 拖拽中的手柄保持不透明
+      const opacity =
+        this._isDragging && this._dragId === id
+          ? 1
+          : Cesium.Math.clamp((angle - fadeEnd) / (fadeStart - fadeEnd), 0, 1)
+      // 忽略细微变化以减少颜色属性写入，但完全显示/隐藏时必须更新
+      const previous = this._handleOpacity[id.name] ?? 1
+      if (
+        previous === opacity ||
+        (Math.abs(previous - opacity) < 0.01 && opacity > 0 && opacity < 1)
+      ) {
+        return
+      }
+      this._handleOpacity[id.name] = opacity
+
+      if (this._highlightedId === id) {
+        if (opacity > 0) return
+        this.restoreHighlight()
+        this.emit("hoverChange", this.createEvent(null))
+      } else {
+        this.applyHandleColor(id)
+      }
+    })
+  }
+
+  /**
+   * 手柄是否已完全淡出（不可拾取）
+   */
+  private isHandleFaded(id: GizmoId) {
+    return (this._handleOpacity[id.name] ?? 1) === 0
+  }
 
-    // 更新中心点
-    const centerPrimitive = this._axisPrimitives["CENTER"]
-    if (centerPrimitive) {
-      let centerScale = baseScale
-      if (
-        this._mode === "scale" &&
-        this._isDragging &&
-        this._dragAxisName === "CENTER"
-      ) {
-        centerScale *= this._activeScale.x
+  /**
+   * 按下时拾取手柄并开始拖拽，返回是否进入拖拽状态
+   */
+  private handleDown(position: Cesium.Cartesian2, tolerance: number = 0) {
+    const pickedId = this.pickGizmo(position, tolerance)
+    if (pickedId) {
+      // 触控没有悬停阶段，按下时补上高亮
+      if (this._highlightedId !== pickedId) {
+        this.restoreHighlight()
+        this.highlightPrimitive(pickedId)
       }
-      const scaleMatrix = Cesium.Matrix4.fromScale(
-        new Cesium.Cartesian3(centerScale, centerScale, centerScale)
-      )
-      centerPrimitive.modelMatrix = Cesium.Matrix4.multiply(
-        enuMatrix,
-        scaleMatrix,
-        new Cesium.Matrix4()
-      )
+      this.startDrag(pickedId, position)
     }
+    return this._isDragging
+  }
 
-    const axes: ("X" | "Y" | "Z")[] = ["X", "Y", "Z"]
-    const directions = {
-      X: new Cesium.Cartesian3(1, 0, 0),
-      Y: new Cesium.Cartesian3(0, 1, 0),
-      Z: new Cesium.Cartesian3(0, 0, 1),
+  /**
+   * 拾取手柄：优先几何射线检测，失败时回退到 scene.pick
+   */
+  private pickGizmo(
+    position: Cesium.Cartesian2,
+    tolerance: number = 0
+  ): GizmoId | null {
+    const pickedId = this.rayCastGizmo(position, tolerance)
+    if (pickedId) return pickedId
+
+    const size = Math.max(1, tolerance * 2)
+    const picked = this.viewer.scene.pick(position, size, size)
+    if (
+      Cesium.defined(picked) &&
+      picked.id &&
+      picked.id.axis &&
+      !this.isHandleFaded(picked.id)
+    ) {
+      return picked.id
     }
+    return null
+  }
 
-    axes.forEach((axis) => {
-      let axisDragScale = 1.0
-      if (axis === "X") axisDragScale = this._activeScale.x
-      if (axis === "Y") axisDragScale = this._activeScale.y
-      if (axis === "Z") axisDragScale = this._activeScale.z
-
-      const totalLen = baseScale * axisDragScale
+  /**
+   * 手柄对应的变换类型：轴向与平面手柄由 GizmoId.type 决定，
+   * 中心点随当前模式变化，万能模式下为屏幕平面平移
+   */
+  private getHandleMode(id: GizmoId): TransformMode {
+    if (id.type !== "center") return id.type
+    return this.gizmoMode === "universal" ? "translate" : this.gizmoMode
+  }
 
-      if (this._mode === "rotate") {
-        // =========================================================
-        // 【核心功能实现】旋转轴：根据相机视角切换象限
-        // =========================================================
-        const pFan = this._axisPrimitives[`${axis}_fan`]
-        const pRim = this._axisPrimitives[`${axis}_rim`]
+  /**
+   * 获取坐标系中手柄对应的单位方向：单轴为对应列，双轴 (如 XY) 为两轴的对角线
+   * CENTER、VIEW 等非坐标轴手柄返回 undefined
+   */
+  private getFrameAxis(frame: Cesium.Matrix4, axis: string) {
+    if (!/^[XYZ]{1,2}$/.test(axis)) return undefined
+    const result = new Cesium.Cartesian3()
+    const column = new Cesium.Cartesian4()
+    ;(["X", "Y", "Z"] as const).forEach((name, index) => {
+      if (!axis.includes(name)) return
+      Cesium.Matrix4.getColumn(frame, index, column)
+      result.x += column.x
+      result.y += column.y
+      result.z += column.z
+    })
+    return Cesium.Cartesian3.normalize(result, result)
+  }
 
-        if (pFan && pRim) {
-          // 1. 计算当前轴平面上的视角角度
-          let angle = 0
-          let rotationAxis = Cesium.Cartesian3.UNIT_Z
+  private startDrag(id: GizmoId, position: Cesium.Cartesian2) {
+    this.setCameraControl(false)
 
-          if (axis === "Z") {
-            // Z轴控制：XY平面。计算 XY 平面上的角度。
-            // Math.atan2(y, x) 返回 (-PI, PI)
-            angle = Math.atan2(localCameraDir.y, localCameraDir.x)
-            rotationAxis = Cesium.Cartesian3.UNIT_Z
-          } else if (axis === "X") {
-            // X轴控制：YZ平面。
-            // 我们的几何体是 0->90 (Y->Z)，所以基准是 Y 轴
-            angle = Math.atan2(localCameraDir.z, localCameraDir.y)
-            rotationAxis = Cesium.Cartesian3.UNIT_X
-          } else if (axis === "Y") {
-            // Y轴控制：ZX平面。
-            // 几何体是 0->90 (Z->X)，基准是 Z 轴
-            angle = Math.atan2(localCameraDir.x, localCameraDir.z)
-            rotationAxis = Cesium.Cartesian3.UNIT_Y
-          }
+    this._isDragging = true
+    this._dragAxisName = id.name
+    this._dragId = id
+    this._dragMode = this.getHandleMode(id)
 
-          // 2. 象限吸附 (Snap to Quadrant)
-          // 我们生成的扇形是 0~90 度。
-          // 我们希望扇形的中心 (45度) 大致对准相机。
-          // 算法：将角度减去 45度(PI/4)，然后除以 90度(PI/2) 取整，再乘回 90度。
-          // 这样可以将 360 度分为 4 个离散的 90 度区间。
-          const step = Math.PI / 2
-          const snapAngle = Math.floor(angle / step) * step
+    this.updateOutlineSelection()
 
-          // 3. 构造旋转矩阵
-          const quat = Cesium.Quaternion.fromAxisAngle(
-            rotationAxis,
-            snapAngle,
-            new Cesium.Quaternion()
-          )
-          const quadrantRotation = Cesium.Matrix3.fromQuaternion(
-            quat,
-            new Cesium.Matrix3()
-          )
-          const quadrantMatrix =
-            Cesium.Matrix4.fromRotationTranslation(quadrantRotation)
+    if (this.center) {
+      this.captureInitialState()
+      if (this.followSurface) this._dragBottomOffset = this.getBottomOffset()
+      if (this.ghost && !this._pivotEditing) this.createGhost()
+      this.markDirty()
 
-          // 4. 组合最终矩阵：ENU(定位) * Scale(缩放) * QuadrantRot(象限朝向)
-          // 注意矩阵乘法顺序：先缩放，再自身旋转切换象限，最后定位到世界坐标
-          const scaleM = Cesium.Matrix4.fromScale(
-            new Cesium.Cartesian3(baseScale, baseScale, baseScale)
+      const axisName = id.axis
+      // 按手柄类型选择坐标系：缩放手柄 (含万能模式的缩放方块) 沿对象自身坐标轴
+      const frameMatrix = this.getGizmoFrame(this.center, this._dragMode)
+      this._dragFrame = frameMatrix
+      const dragMode = this._dragMode
+      const camera = this.viewer.scene.camera
+      const viewDirection = Cesium.Cartesian3.subtract(
+        this.center,
+        camera.positionWC,
+        new Cesium.Cartesian3()
+      )
+      Cesium.Cartesian3.normalize(viewDirection, viewDirection)
+      const axisVector = this.getFrameAxis(frameMatrix, axisName)
+      let normal = Cesium.Cartesian3.clone(camera.directionWC)
+      this._rotateTangent = undefined
+
+      if (!axisVector) {
+        // 中心点与视线外环没有坐标轴，在屏幕平面内拖拽
+      } else if (dragMode === "rotate") {
+        normal = axisVector
+        // 圆环接近侧视时与视线平行的平面无法稳定求交，改为沿屏幕上圆环的切线方向拖拽
+        if (Math.abs(Cesium.Cartesian3.dot(viewDirection, axisVector)) < 0.15) {
+          this._rotateTangent = Cesium.Cartesian3.cross(
+            viewDirection,
+            axisVector,
+            new Cesium.Cartesian3()
           )
-
-          let m = Cesium.Matrix4.multiply(
-            quadrantMatrix,
-            scaleM,
-            new Cesium.Matrix4()
-          ) // Scale -> Rotate
-          m = Cesium.Matrix4.multiply(enuMatrix, m, m) // -> World Position
-
-          pFan.modelMatrix = m
-          pRim.modelMatrix = m
+          Cesium.Cartesian3.normalize(this._rotateTangent, this._rotateTangent)
+          normal = Cesium.Cartesian3.clone(camera.directionWC)
         }
+      } else if (dragMode === "translate" && axisName.length === 2) {
+        // 平移平面手柄：在手柄所在平面内拖拽
+        const normalAxis: Record<string, LockAxis> = {
+          XY: "Z",
+          YZ: "X",
+          ZX: "Y",
+        }
+        normal = this.getFrameAxis(frameMatrix, normalAxis[axisName])!
       } else {
-        // ... (Translate/Scale 的原有逻辑保持不变) ...
-        const lineScaleMatrix = Cesium.Matrix4.fromScale(
-          new Cesium.Cartesian3(totalLen, totalLen, totalLen)
-        )
-        const lineModelMatrix = Cesium.Matrix4.multiply(
-          enuMatrix,
-          lineScaleMatrix,
-          new Cesium.Matrix4()
+        // 沿轴 (或缩放平面的对角线) 拖拽：选取包含该轴且尽量正对相机的平面，
+        // 法向为视线去除轴向分量后的部分
+        const projected = Cesium.Cartesian3.subtract(
+          viewDirection,
+          Cesium.Cartesian3.multiplyByScalar(
+            axisVector,
+            Cesium.Cartesian3.dot(viewDirection, axisVector),
+            new Cesium.Cartesian3()
+          ),
+          new Cesium.Cartesian3()
         )
-
-        let rotateMatrix = Cesium.Matrix4.IDENTITY
-        if (this._mode === "translate") {
-          if (axis === "X") {
-            rotateMatrix = Cesium.Matrix4.fromRotationTranslation(
-              Cesium.Matrix3.fromRotationY(Cesium.Math.toRadians(90))
-            )
-          } else if (axis === "Y") {
-            rotateMatrix = Cesium.Matrix4.fromRotationTranslation(
-              Cesium.Matrix3.fromRotationX(Cesium.Math.toRadians(-90))
-            )
-          }
+        if (Cesium.Cartesian3.magnitude(projected) > Cesium.Math.EPSILON6) {
+          normal = projected
         }
+      }
 
-        const tipScaleMatrix = Cesium.Matrix4.fromScale(
-          new Cesium.Cartesian3(baseScale, baseScale, baseScale)
-        )
-        const tipOffsetDist =
-          this._mode === "translate" ? totalLen + 0.075 * baseScale : totalLen
-        const offset = Cesium.Cartesian3.multiplyByScalar(
-          directions[axis],
-          tipOffsetDist,
-          new Cesium.Cartesian3()
-        )
-        const translateMatrix = Cesium.Matrix4.fromTranslation(offset)
+      Cesium.Cartesian3.normalize(normal, normal)
+      this._dragPlane = Cesium.Plane.fromPointNormal(this.center, normal)
 
-        let tipModelMatrix = Cesium.Matrix4.multiply(
-          rotateMatrix,
-          tipScaleMatrix,
-          new Cesium.Matrix4()
+      const ray = this.viewer.scene.camera.getPickRay(position)
+      if (ray) {
+        const intersect = Cesium.IntersectionTests.rayPlane(
+          ray,
+          this._dragPlane
         )
-        tipModelMatrix = Cesium.Matrix4.multiply(
-          translateMatrix,
-          tipModelMatrix,
-          tipModelMatrix
+        if (intersect) {
+          this._dragStartPoint = intersect
+          this._dragVectorStart = Cesium.Cartesian3.subtract(
+            intersect,
+            this.center,
+            new Cesium.Cartesian3()
+          )
+          Cesium.Cartesian3.normalize(
+            this._dragVectorStart,
+            this._dragVectorStart
+          )
+        }
+      }
+
+      // 侧视回退时以圆环上离相机最近的一点作为起始方向，供角度反馈使用
+      if (this._rotateTangent && axisVector) {
+        const nearest = Cesium.Cartesian3.negate(
+          viewDirection,
+          new Cesium.Cartesian3()
         )
-        tipModelMatrix = Cesium.Matrix4.multiply(
-          enuMatrix,
-          tipModelMatrix,
-          tipModelMatrix
+        Cesium.Cartesian3.subtract(
+          nearest,
+          Cesium.Cartesian3.multiplyByScalar(
+            axisVector,
+            Cesium.Cartesian3.dot(nearest, axisVector),
+            new Cesium.Cartesian3()
+          ),
+          nearest
         )
+        if (Cesium.Cartesian3.magnitude(nearest) > Cesium.Math.EPSILON6) {
+          Cesium.Cartesian3.normalize(nearest, this._dragVectorStart)
+        }
+      }
+      this._rotateAngle = 0
+      this._rotateRawAngle = 0
+      Cesium.Cartesian3.clone(this._dragVectorStart, this._rotateLastVector)
+    }
 
-        const pLine = this._axisPrimitives[`${axis}_line`]
-        const pTip =
-          this._axisPrimitives[`${axis}_arrow`] ||
-          this._axisPrimitives[`${axis}_box`]
+    if (!this._pivotEditing) {
+      this.emit("dragStart", this.createEvent(id, this._initialModelMatrix))
+    }
+  }
 
-        if (pLine) pLine.modelMatrix = lineModelMatrix
-        if (pTip) pTip.modelMatrix = tipModelMatrix
+  private handleUp() {
+    if (this._isDragging) {
+      this._isDragging = false
+      this.setCameraControl(true)
+      this._activeScale = new Cesium.Cartesian3(1, 1, 1)
+      this.clearRotateFeedback()
+      this.clearMeasurement()
+      this.clearGhost()
+      if (this._styleDirty) this.createGizmo()
+      this.markDirty()
+      this.updateOutlineSelection()
+
+      // 编辑枢轴点不改变对象，不记录历史也不派发拖拽事件
+      if (this._pivotEditing) {
+        this._pivot = "custom"
+        this._dragId = null
+        return
       }
-    })
 
-    if (this._mode === "translate") {
-      const planes = ["XY", "YZ", "ZX"]
-      const planeScaleMatrix = Cesium.Matrix4.fromScale(
-        new Cesium.Cartesian3(baseScale, baseScale, baseScale)
-      )
-      const planeModelMatrix = Cesium.Matrix4.multiply(
-        enuMatrix,
-        planeScaleMatrix,
-        new Cesium.Matrix4()
-      )
+      this.recordHistory()
 
-      planes.forEach((plane) => {
-        const p = this._axisPrimitives[`PLANE_${plane}`]
-        if (p) p.modelMatrix = planeModelMatrix
-      })
+      this.emit(
+        "dragEnd",
+        this.createEvent(this._dragId, this._initialModelMatrix)
+      )
+      this._dragId = null
     }
   }
 
-  // ==================================================================================
-  //                                  3. 交互事件处理 (RayCast 核心)
-  // ==================================================================================
-
-  /**
-   * 几何射线检测
-   */
-  private rayCastGizmo(position: Cesium.Cartesian2): GizmoId | null {
-    if (this._colliders.length === 0) return null
+  // --- 业务计算逻辑 ---
 
+  private handleDrag(position: Cesium.Cartesian2) {
+    if (!this._dragPlane || !this.center) return
     const ray = this.viewer.scene.camera.getPickRay(position)
-    if (!ray) return null
-
-    let minDistance = Number.MAX_VALUE
-    let closestId: GizmoId | null = null
-
-    const inverseModelMatrix = new Cesium.Matrix4()
-    const localRay = new Cesium.Ray()
+    if (!ray) return
+    const newPoint = Cesium.IntersectionTests.rayPlane(ray, this._dragPlane)
+    if (!newPoint) return
 
-    for (const collider of this._colliders) {
-      const primitive = this._axisPrimitives[collider.primitiveKey]
-      if (!primitive || !primitive.show) continue
+    if (this._dragMode === "translate") this.updateTranslate(newPoint)
+    if (this._dragMode === "rotate") this.updateRotate(newPoint)
+    if (this._dragMode === "scale") this.updateScale(newPoint)
+    this.markDirty()
+    this.updateMeasurementLabel()
+    if (this._pivotEditing) return
 
-      const modelMatrix = primitive.modelMatrix
+    this.onUpdate && this.onUpdate(this.getTransformState())
+    this.emit("drag", this.createEvent(this._dragId, this._initialModelMatrix))
+  }
 
-      try {
-        Cesium.Matrix4.inverse(modelMatrix, inverseModelMatrix)
-      } catch (e) {
-        continue
-      }
+  private updateTranslate(newPoint: Cesium.Cartesian3) {
+    const moveVector = Cesium.Cartesian3.subtract(
+      newPoint,
+      this._dragStartPoint,
+      new Cesium.Cartesian3()
+    )
+    const frameMatrix = this._dragFrame
+    let offset = new Cesium.Cartesian3()
+    const axisName = this._dragAxisName
 
-      localRay.origin = Cesium.Matrix4.multiplyByPoint(
-        inverseModelMatrix,
-        ray.origin,
+    if (axisName === "CENTER" && this._depthModifierDown) {
+      // 沿相机到枢轴点的视线方向移动，屏幕上向上拖拽为远离相机
+      const viewRay = Cesium.Cartesian3.subtract(
+        this._dragStartCenter,
+        this.viewer.scene.camera.positionWC,
         new Cesium.Cartesian3()
       )
-      localRay.direction = Cesium.Matrix4.multiplyByPointAsVector(
-        inverseModelMatrix,
-        ray.direction,
-        new Cesium.Cartesian3()
+      Cesium.Cartesian3.normalize(viewRay, viewRay)
+      const scalar = this.snapValue(
+        Cesium.Cartesian3.dot(moveVector, this.viewer.scene.camera.upWC),
+        this.snap.translate
       )
-
-      const localAABB = new Cesium.AxisAlignedBoundingBox(
-        collider.localMin,
-        collider.localMax
+      offset = Cesium.Cartesian3.multiplyByScalar(
+        viewRay,
+        scalar,
+        new Cesium.Cartesian3()
       )
-      const interval = Cesium.IntersectionTests.rayAxisAlignedBoundingBox(
-        localRay,
-        localAABB,
-        new Cesium.Interval()
-      ) as any
-
-      if (interval) {
-        // --- 扇形检测逻辑 ---
-        if (collider.type === "SECTOR") {
-          const t = interval.start
-          const hitPoint = Cesium.Ray.getPoint(
-            localRay,
-            t,
-            new Cesium.Cartesian3()
-          )
-
-          // 1. 距离中心检测 (剔除太远或太近的点)
-          const r = collider.radius!
-          // 因为包含扇形面，所以从 0 到 radius+buffer 都是有效区域
-          // 如果你只想点中边框，这里要修改 logic
-          // UE5 风格通常整个扇形都能点
-          const buffer = (collider.tube || 0.05) * 4.0
-          const dist = Cesium.Cartesian3.magnitude(hitPoint)
-
-          if (dist > r + buffer) continue
-
-          // 2. 角度检测 (限制在 0-90 度象限内)
-          // 根据 ringNormalAxis 确定平面坐标
-          let u = 0,
-            v = 0
-          if (collider.ringNormalAxis === 2) {
-            u = hitPoint.x
-            v = hitPoint.y
-          } // XY (Z轴)
-          if (collider.ringNormalAxis === 0) {
-            u = hitPoint.y
-            v = hitPoint.z
-          } // YZ (X轴)
-          if (collider.ringNormalAxis === 1) {
-            u = hitPoint.z
-            v = hitPoint.x
-          } // ZX (Y轴)
-
-          // 只有当 u, v 都为正时 (第一象限)，才算击中扇形
-          // 稍微给点容差 -0.05
-          if (u < -0.05 || v < -0.05) continue
-        }
+    } else if (axisName.includes("PLANE") || axisName === "CENTER") {
+      // 平面手柄在所在平面内移动，中心点在正对相机、穿过枢轴点的平面内移动
+      offset = moveVector
+      if (this.isSnapActive()) {
+        // 在 Gizmo 局部坐标下逐分量吸附，再转回世界坐标
+        const inverseEnu = Cesium.Matrix4.inverse(
+          frameMatrix,
+          new Cesium.Matrix4()
+        )
+        const localOffset = Cesium.Matrix4.multiplyByPointAsVector(
+          inverseEnu,
+          moveVector,
+          new Cesium.Cartesian3()
+        )
+        const step = this.snap.translate
+        localOffset.x = this.snapValue(localOffset.x, step)
+        localOffset.y = this.snapValue(localOffset.y, step)
+        localOffset.z = this.snapValue(localOffset.z, step)
+        offset = Cesium.Matrix4.multiplyByPointAsVector(
+          frameMatrix,
+          localOffset,
+          new Cesium.Cartesian3()
+        )
+      }
+    } else {
+      let axisVector = new Cesium.Cartesian3()
+      const axis = axisName.split("_")[1]
+      if (axis === "X")
+        Cesium.Matrix4.getColumn(frameMatrix, 0, axisVector as any)
+      if (axis === "Y")
+        Cesium.Matrix4.getColumn(frameMatrix, 1, axisVector as any)
+      if (axis === "Z")
+        Cesium.Matrix4.getColumn(frameMatrix, 2, axisVector as any)
+      Cesium.Cartesian3.normalize(axisVector, axisVector)
 
-        let dist = interval.start
-        if (collider.id.axis === "CENTER") {
-          dist -= 1000.0
-        }
+      const scalar = this.snapValue(
+        Cesium.Cartesian3.dot(moveVector, axisVector),
+        this.snap.translate
+      )
+      offset = Cesium.Cartesian3.multiplyByScalar(
+        axisVector,
+        scalar,
+        new Cesium.Cartesian3()
+      )
+    }
 
-        if (dist < minDistance) {
-          minDistance = dist
-          closestId = collider.id
-        }
+    offset = this.constrainOffset(offset, frameMatrix)
+    let newCenter = this.getTranslatedCenter(this._dragStartCenter, offset)
+    if (
+      this.followSurface &&
+      !this._pivotEditing &&
+      ["TRANS_X", "TRANS_Y", "PLANE_XY"].includes(axisName)
+    ) {
+      // 贴地修正同样受平移锁定约束
+      const clamped = this.clampToSurface(newCenter)
+      if (clamped) {
+        const correction = this.constrainOffset(
+          Cesium.Cartesian3.subtract(clamped, newCenter, clamped),
+          frameMatrix
+        )
+        Cesium.Cartesian3.add(newCenter, correction, newCenter)
       }
     }
+    this.center = newCenter.clone()
 
-    return closestId
-  }
+    // 以实际位移 (含贴地修正) 在拖拽开始时的 Gizmo 坐标系下分解
+    const moved = Cesium.Cartesian3.subtract(
+      newCenter,
+      this._dragStartCenter,
+      new Cesium.Cartesian3()
+    )
+    const localMoved = Cesium.Matrix4.multiplyByPointAsVector(
+      Cesium.Matrix4.inverseTransformation(frameMatrix, new Cesium.Matrix4()),
+      moved,
+      new Cesium.Cartesian3()
+    )
+    this._measurement = {
+      mode: "translate",
+      id: this._dragId!,
+      translation: {
+        x: localMoved.x,
+        y: localMoved.y,
+        z: localMoved.z,
+        distance: Cesium.Cartesian3.magnitude(moved),
+      },
+    }
 
-  private initControlEvents() {
-    if (this._handler) return // 防止重复绑定
+    if (this._pivotEditing) {
+      this.setCustomPivot(newCenter)
+      return
+    }
+    this.applyTranslation(newCenter)
+  }
 
-    const scene = this.viewer.scene
-    this._handler = new Cesium.ScreenSpaceEventHandler(scene.canvas)
+  /**
+   * 按平移方式计算位移后的中心点
+   * rhumb 模式下将位移分解到起点的东北天坐标系：水平分量沿恒向线 (航向不变) 在椭球面上移动，天向分量改变椭球高度
+   */
+  private getTranslatedCenter(
+    start: Cesium.Cartesian3,
+    offset: Cesium.Cartesian3
+  ) {
+    const linear = Cesium.Cartesian3.add(start, offset, new Cesium.Cartesian3())
+    if (this.translateMode !== "rhumb") return linear
 
-    this._handler.setInputAction(
-      (movement: Cesium.ScreenSpaceEventHandler.MotionEvent) => {
-        // 只有在有对象绑定时才响应
-        if (!this.object) return
+    const startCartographic = Cesium.Cartographic.fromCartesian(start)
+    if (!startCartographic) return linear
 
-        if (this._isDragging) {
-          this.handleDrag(movement.endPosition)
-        } else {
-          this.handleHover(movement.endPosition)
-        }
-      },
-      Cesium.ScreenSpaceEventType.MOUSE_MOVE
+    const enu = Cesium.Transforms.eastNorthUpToFixedFrame(start)
+    const local = Cesium.Matrix4.multiplyByPointAsVector(
+      Cesium.Matrix4.inverseTransformation(enu, new Cesium.Matrix4()),
+      offset,
+      new Cesium.Cartesian3()
+    )
+    const distance = Math.hypot(local.x, local.y)
+    let end = startCartographic
+    if (distance > 0) {
+      // 航向从正北顺时针计
+      end = Cesium.EllipsoidRhumbLine.fromStartHeadingDistance(
+        startCartographic,
+        Math.atan2(local.x, local.y),
+        distance
+      ).end
+    }
+    return Cesium.Cartesian3.fromRadians(
+      end.longitude,
+      end.latitude,
+      startCartographic.height + local.z
     )
+  }
 
-    this._handler.setInputAction(
-      (click: Cesium.ScreenSpaceEventHandler.PositionedEvent) => {
-        if (!this.object) return
-        this.handleDown(click.position)
-      },
-      Cesium.ScreenSpaceEventType.LEFT_DOWN
+  /**
+   * 将绑定对象从 _dragStartCenter 平移到新的中心点
+   * rhumb 模式下同时把姿态从起点的东北天坐标系转换到终点的东北天坐标系，保持航向、俯仰、横滚不变
+   */
+  private applyTranslation(newCenter: Cesium.Cartesian3) {
+    if (this.translateMode !== "rhumb") {
+      const translation = Cesium.Cartesian3.subtract(
+        newCenter,
+        this._dragStartCenter,
+        new Cesium.Cartesian3()
+      )
+      this.applyTransform(Cesium.Matrix4.fromTranslation(translation))
+      return
+    }
+
+    const startFrame = Cesium.Transforms.eastNorthUpToFixedFrame(
+      this._dragStartCenter
+    )
+    const endFrame = Cesium.Transforms.eastNorthUpToFixedFrame(newCenter)
+    const rebase = Cesium.Matrix4.multiply(
+      endFrame,
+      Cesium.Matrix4.inverseTransformation(startFrame, new Cesium.Matrix4()),
+      new Cesium.Matrix4()
     )
+    // 该矩阵已包含起点到终点的完整刚体变换，不再绕枢轴点变换
+    const previous = this.objects.map((object) => object.modelMatrix.clone())
+    this.objects.forEach((object, index) => {
+      const baseMatrix = this._initialModelMatrices[index]
+      if (!baseMatrix) return
+      Cesium.Matrix4.multiply(rebase, baseMatrix, object.modelMatrix)
+    })
+    this.enforceConstraints(previous)
+  }
 
-    this._handler.setInputAction(() => {
-      if (!this.object) return
-      this.handleUp()
-    }, Cesium.ScreenSpaceEventType.LEFT_UP)
+  /**
+   * 中心点高出所有绑定对象最低点的距离，拖拽时用于保持底部贴合表面
+   */
+  private getBottomOffset() {
+    if (!this.center) return 0
+    const centerHeight = Cesium.Cartographic.fromCartesian(this.center)?.height
+    if (centerHeight === undefined) return 0
+    const bottomHeights = this.objects
+      .map(
+        (object) =>
+          Cesium.Cartographic.fromCartesian(this.getObjectBottom(object))
+            ?.height
+      )
+      .filter((height): height is number => height !== undefined)
+    if (bottomHeights.length === 0) return 0
+    return centerHeight - Math.min(...bottomHeights)
   }
 
-  private handleHover(position: Cesium.Cartesian2) {
-    let pickedId = this.rayCastGizmo(position)
-    if (!pickedId) {
-      const picked = this.viewer.scene.pick(position)
-      if (Cesium.defined(picked) && picked.id && picked.id.type) {
-        if (picked.id.axis) pickedId = picked.id
-      }
-    }
-    if (pickedId) {
-      if (this._highlightedId !== pickedId) {
-        this.restoreHighlight()
-        this.highlightPrimitive(pickedId)
-      }
-    } else {
-      this.restoreHighlight()
-    }
+  /**
+   * 调整中心点高度，使对象底部落在其下方的表面上，表面无法采样时返回 undefined
+   */
+  private clampToSurface(center: Cesium.Cartesian3) {
+    const cartographic = Cesium.Cartographic.fromCartesian(center)
+    if (!cartographic) return undefined
+    const height = this.sampleSurfaceHeight(cartographic)
+    if (height === undefined) return undefined
+    cartographic.height = height + this._dragBottomOffset
+    return Cesium.Cartographic.toCartesian(cartographic)
   }
 
-  private highlightPrimitive(id: GizmoId) {
-    const targetPrimitives: any[] = []
-    const axis = id.axis
+  private updateRotate(newPoint: Cesium.Cartesian3) {
+    if (this._dragAxisName === "CENTER") {
+      this.updateTrackball(newPoint)
+      return
+    }
 
-    if (axis === "CENTER") {
-      targetPrimitives.push(this._axisPrimitives["CENTER"])
-    } else if (["XY", "YZ", "ZX"].includes(axis)) {
-      targetPrimitives.push(this._axisPrimitives[`PLANE_${axis}`])
+    const frameMatrix = this._dragFrame
+    let axisVector = new Cesium.Cartesian3()
+    const axis = this._dragAxisName.split("_")[1]
+
+    if (axis === "X")
+      Cesium.Matrix4.getColumn(frameMatrix, 0, axisVector as any)
+    if (axis === "Y")
+      Cesium.Matrix4.getColumn(frameMatrix, 1, axisVector as any)
+    if (axis === "Z")
+      Cesium.Matrix4.getColumn(frameMatrix, 2, axisVector as any)
+    // 视线轴：拖拽平面的法向即拖拽开始时的视线方向
+    if (axis === "VIEW")
+      Cesium.Cartesian3.clone(this._dragPlane!.normal, axisVector)
+    Cesium.Cartesian3.normalize(axisVector, axisVector)
+
+    let angle = 0
+    if (this._rotateTangent) {
+      // 侧视回退：沿切线拖过一个圆环半径约为 1 弧度
+      const moveVector = Cesium.Cartesian3.subtract(
+        newPoint,
+        this._dragStartPoint,
+        new Cesium.Cartesian3()
+      )
+      const pixelSize = this.viewer.camera.getPixelSize(
+        new Cesium.BoundingSphere(this._dragStartCenter, 0),
+        this.viewer.canvas.clientWidth,
+        this.viewer.canvas.clientHeight
+      )
+      angle =
+        Cesium.Cartesian3.dot(moveVector, this._rotateTangent) /
+        (this.rotationRadius * this.axisLength * pixelSize)
     } else {
-      // 1. 尝试查找旋转轴的部件 (新版逻辑)
-      if (this._axisPrimitives[`${axis}_rim`])
-        targetPrimitives.push(this._axisPrimitives[`${axis}_rim`])
+      const currentVector = Cesium.Cartesian3.subtract(
+        newPoint,
+        this.center!,
+        new Cesium.Cartesian3()
+      )
+      Cesium.Cartesian3.normalize(currentVector, currentVector)
 
-      // 2. 尝试查找平移/缩放轴的部件 (通用逻辑)
-      const keys = [`${axis}_line`, `${axis}_arrow`, `${axis}_box`]
-      keys.forEach((key) => {
-        if (this._axisPrimitives[key])
-          targetPrimitives.push(this._axisPrimitives[key])
-      })
+      // 累加每次移动的有符号增量，转过半圈以上也能连续计角
+      const cross = Cesium.Cartesian3.cross(
+        this._rotateLastVector,
+        currentVector,
+        new Cesium.Cartesian3()
+      )
+      this._rotateRawAngle += Math.atan2(
+        Cesium.Cartesian3.dot(cross, axisVector),
+        Cesium.Cartesian3.dot(this._rotateLastVector, currentVector)
+      )
+      Cesium.Cartesian3.clone(currentVector, this._rotateLastVector)
+      angle = this._rotateRawAngle
     }
+    if (angle === 0) return
 
-    // 执行高亮：统一设为黄色
-    targetPrimitives.forEach((p) => {
-      if (!p) return
-      const attributes = p.getGeometryInstanceAttributes(id)
-      if (attributes) {
-        // 高亮时，扇形也稍微加深一点透明度，甚至设为不透明，看你喜好
-        // 这里设为纯黄，显眼
-        attributes.color = Cesium.ColorGeometryInstanceAttribute.toValue(
-          Cesium.Color.YELLOW
-        )
-      }
-    })
+    angle = this.snapValue(angle, Cesium.Math.toRadians(this.snap.rotate))
+    this._rotateAngle = angle
+    this.setRotateMeasurement(angle)
+    if (this._rotationStyle === "ring" && axis !== "VIEW") {
+      this.updateRotateFeedback(axis as LockAxis)
+    }
 
-    this._highlightedId = id
+    const quaternion = Cesium.Quaternion.fromAxisAngle(axisVector, angle)
+    const rotationMatrix = Cesium.Matrix4.fromRotationTranslation(
+      Cesium.Matrix3.fromQuaternion(quaternion)
+    )
+    this.applyTransform(rotationMatrix)
   }
 
-  private restoreHighlight() {
-    if (this._highlightedId) {
-      const id = this._highlightedId
-      const axis = id.axis
-
-      // 1. 确定原始颜色
-      let baseColor: Cesium.Color
-      if (axis === "CENTER") {
-        baseColor = Cesium.Color.WHITE
-      } else if (["XY", "YZ", "ZX"].includes(axis)) {
-        // 平面颜色需特殊处理
-        if (axis === "XY") baseColor = this.colors["Z"]
-        else if (axis === "YZ") baseColor = this.colors["X"]
-        else baseColor = this.colors["Y"] // ZX -> Y
-      } else {
-        // X, Y, Z 轴的标准颜色
-        // @ts-ignore
-        baseColor = this.colors[axis] || Cesium.Color.WHITE
-      }
+  /**
+   * 轨迹球旋转：拖拽方向决定旋转轴 (位于屏幕平面内、垂直于拖拽方向)，
+   * 拖拽距离决定旋转角度，拖过一个 Gizmo 半径约为 1 弧度
+   */
+  private updateTrackball(newPoint: Cesium.Cartesian3) {
+    const moveVector = Cesium.Cartesian3.subtract(
+      newPoint,
+      this._dragStartPoint,
+      new Cesium.Cartesian3()
+    )
+    const distance = Cesium.Cartesian3.magnitude(moveVector)
+    if (distance === 0) return
 
-      // 2. 查找所有相关图元并分别还原
-      // 我们需要分别处理，因为 Fan (扇形) 需要透明度，而其他不需要
+    const towardViewer = Cesium.Cartesian3.negate(
+      this._dragPlane!.normal,
+      new Cesium.Cartesian3()
+    )
+    const axisVector = Cesium.Cartesian3.cross(
+      towardViewer,
+      moveVector,
+      new Cesium.Cartesian3()
+    )
+    if (Cesium.Cartesian3.magnitude(axisVector) === 0) return
+    Cesium.Cartesian3.normalize(axisVector, axisVector)
 
-      // --- 处理旋转轴 (Fan & Rim) ---
-      const pFan = this._axisPrimitives[`${axis}_fan`]
-      const pRim = this._axisPrimitives[`${axis}_rim`]
+    const pixelSize = this.viewer.camera.getPixelSize(
+      new Cesium.BoundingSphere(this._dragStartCenter, 0),
+      this.viewer.canvas.clientWidth,
+      this.viewer.canvas.clientHeight
+    )
+    const angle = this.snapValue(
+      distance / (this.axisLength * pixelSize),
+      Cesium.Math.toRadians(this.snap.rotate)
+    )
+    this.setRotateMeasurement(angle)
+    const quaternion = Cesium.Quaternion.fromAxisAngle(axisVector, angle)
+    const rotationMatrix = Cesium.Matrix4.fromRotationTranslation(
+      Cesium.Matrix3.fromQuaternion(quaternion)
+    )
+    this.applyTransform(rotationMatrix)
+  }
 
-      if (pFan) {
-        const attr = pFan.getGeometryInstanceAttributes(id)
-        if (attr) {
-          // 扇形还原为 0.2 透明度
-          attr.color = Cesium.ColorGeometryInstanceAttribute.toValue(
-            baseColor.withAlpha(0.2)
-          )
-        }
-      }
-      if (pRim) {
-        const attr = pRim.getGeometryInstanceAttributes(id)
-        if (attr) {
-          // 边框还原为不透明
-          attr.color = Cesium.ColorGeometryInstanceAttribute.toValue(baseColor)
-        }
-      }
+  /**
+   * 圆环样式的旋转反馈：扫过的扇形与角度标签
+   * 扇形在首次更新时按 1° 一块创建整圈，之后只切换各块的显示，拖拽中不再重建几何体
+   */
+  private updateRotateFeedback(axis: LockAxis) {
+    if (!this._sweepPrimitive) this.createRotateSweep(axis)
+    if (!this._sweepPrimitive) return
 
-      // --- 处理其他部件 (Line, Arrow, Box, Center, Plane) ---
-      const otherKeys = [
-        `${axis}_line`,
-        `${axis}_arrow`,
-        `${axis}_box`,
-        `PLANE_${axis}`,
-        "CENTER",
-      ]
-      otherKeys.forEach((key) => {
-        const p = this._axisPrimitives[key]
-        if (p) {
-          const attr = p.getGeometryInstanceAttributes(id)
-          if (attr) {
-            // 平面特殊处理透明度
-            if (key.includes("PLANE")) {
-              attr.color = Cesium.ColorGeometryInstanceAttribute.toValue(
-                baseColor.withAlpha(0.5)
-              )
-            } else {
-              attr.color =
-                Cesium.ColorGeometryInstanceAttribute.toValue(baseColor)
-            }
-          }
-        }
-      })
+    const angle = this._rotateAngle
+    const rotation = Cesium.Matrix3.fromQuaternion(
+      Cesium.Quaternion.fromAxisAngle(this._sweepAxis, angle)
+    )
+    Cesium.Matrix3.multiplyByVector(rotation, this._sweepStart, this._sweepEnd)
+
+    // 开启测量标签时角度已由测量标签显示，隐藏扇形末端的角度标签
+    const label = this._angleLabels!.get(0)
+    const degrees = Cesium.Math.toDegrees(angle)
+    label.show = !this.measurement.show
+    label.text = `${degrees > 0 ? "+" : ""}${degrees.toFixed(1)}°`
+    this.applySweepAngle()
+  }
 
-      this._highlightedId = null
+  /**
+   * 创建整圈的扫过扇形 (初始全部隐藏) 与角度标签
+   * 扇形在拖拽开始时的 Gizmo 坐标系下以单位半径构建，缩放与定位在 update 中完成
+   */
+  private createRotateSweep(axis: LockAxis) {
+    const localAxis = {
+      X: Cesium.Cartesian3.UNIT_X,
+      Y: Cesium.Cartesian3.UNIT_Y,
+      Z: Cesium.Cartesian3.UNIT_Z,
+    }[axis]
+    const inverseFrame = Cesium.Matrix4.inverseTransformation(
+      this._dragFrame,
+      new Cesium.Matrix4()
+    )
+    const localStart = Cesium.Matrix4.multiplyByPointAsVector(
+      inverseFrame,
+      this._dragVectorStart,
+      new Cesium.Cartesian3()
+    )
+    // 投影到旋转平面内
+    Cesium.Cartesian3.subtract(
+      localStart,
+      Cesium.Cartesian3.multiplyByScalar(
+        localAxis,
+        Cesium.Cartesian3.dot(localStart, localAxis),
+        new Cesium.Cartesian3()
+      ),
+      localStart
+    )
+    if (Cesium.Cartesian3.magnitude(localStart) === 0) return
+    Cesium.Cartesian3.normalize(localStart, localStart)
+    Cesium.Cartesian3.multiplyByScalar(
+      localStart,
+      this.rotationRadius,
+      this._sweepStart
+    )
+    Cesium.Cartesian3.clone(localAxis, this._sweepAxis)
+
+    const color = this._style.colors[axis]
+    const step = Cesium.Math.toRadians(1)
+    const instances: Cesium.GeometryInstance[] = []
+    const from = new Cesium.Cartesian3()
+    const to = new Cesium.Cartesian3()
+    for (let i = 0; i < 360; i++) {
+      Cesium.Matrix3.multiplyByVector(
+        Cesium.Matrix3.fromQuaternion(
+          Cesium.Quaternion.fromAxisAngle(localAxis, i * step)
+        ),
+        this._sweepStart,
+        from
+      )
+      Cesium.Matrix3.multiplyByVector(
+        Cesium.Matrix3.fromQuaternion(
+          Cesium.Quaternion.fromAxisAngle(localAxis, (i + 1) * step)
+        ),
+        this._sweepStart,
+        to
+      )
+      const attributes = new Cesium.GeometryAttributes()
+      attributes.position = new Cesium.GeometryAttribute({
+        componentDatatype: Cesium.ComponentDatatype.DOUBLE,
+        componentsPerAttribute: 3,
+        values: new Float64Array([
+          0,
+          0,
+          0,
+          from.x,
+          from.y,
+          from.z,
+          to.x,
+          to.y,
+          to.z,
+        ]),
+      })
+      instances.push(
+        new Cesium.GeometryInstance({
+          id: i,
+          geometry: new Cesium.Geometry({
+            attributes,
+            indices: new Uint16Array([0, 1, 2]),
+            primitiveType: Cesium.PrimitiveType.TRIANGLES,
+            boundingSphere: new Cesium.BoundingSphere(
+              Cesium.Cartesian3.ZERO,
+              1
+            ),
+          }),
+          attributes: {
+            color: Cesium.ColorGeometryInstanceAttribute.fromColor(
+              color.withAlpha(this._style.sweepAlpha)
+            ),
+            show: new Cesium.ShowGeometryInstanceAttribute(false),
+          },
+        })
+      )
     }
+    this._sweepPrimitive = this._primitives.add(
+      new Cesium.Primitive({
+        geometryInstances: instances,
+        appearance: this.getAppearance(color, false),
+        asynchronous: false,
+      })
+    )
+    this._sweepCount = 0
+
+    this._angleLabels = this._primitives.add(new Cesium.LabelCollection())
+    this._angleLabels!.add({
+      position: this.center!.clone(),
+      text: "",
+      font: "bold 14px sans-serif",
+      fillColor: Cesium.Color.WHITE,
+      outlineColor: Cesium.Color.BLACK,
+      outlineWidth: 3,
+      style: Cesium.LabelStyle.FILL_AND_OUTLINE,
+      horizontalOrigin: Cesium.HorizontalOrigin.CENTER,
+      verticalOrigin: Cesium.VerticalOrigin.CENTER,
+      disableDepthTestDistance: Number.POSITIVE_INFINITY,
+    })
   }
 
-  private handleDown(position: Cesium.Cartesian2) {
-    let pickedId = this.rayCastGizmo(position)
-    if (!pickedId) {
-      const picked = this.viewer.scene.pick(position)
-      if (Cesium.defined(picked) && picked.id && picked.id.type) {
-        pickedId = picked.id
-      }
+  /**
+   * 按当前角度显示扫过的扇形块：正角度从第 0 块起顺序显示，负角度从最后一块起倒序显示，超过一圈时整圈显示
+   * 图元在首次渲染后才可修改实例属性，此前保持更新标记，下一帧重试
+   */
+  private applySweepAngle() {
+    const primitive = this._sweepPrimitive
+    if (!primitive) return
+    const count =
+      Math.sign(this._rotateAngle) *
+      Math.min(
+        360,
+        Math.ceil(Math.abs(Cesium.Math.toDegrees(this._rotateAngle)))
+      )
+    if (count === this._sweepCount) return
+    if (!primitive.ready) {
+      this.markDirty()
+      return
     }
-    if (pickedId) {
-      this.startDrag(pickedId, position)
+
+    for (let i = 0; i < 360; i++) {
+      const show = count >= 0 ? i < count : i >= 360 + count
+      const attributes = primitive.getGeometryInstanceAttributes(i)
+      attributes.show = Cesium.ShowGeometryInstanceAttribute.toValue(
+        show,
+        attributes.show
+      )
     }
+    this._sweepCount = count
   }
 
-  private startDrag(id: GizmoId, position: Cesium.Cartesian2) {
-    if (id.axis === "CENTER" && this._mode !== "scale") return
-
-    this.viewer.scene.screenSpaceCameraController.enableRotate = false
-    this.viewer.scene.screenSpaceCameraController.enableTranslate = false
-
-    this._isDragging = true
-    this._dragAxisName = id.name
-
-    this.updateOutlineSelection()
-
-    if (this.center) {
-      this._dragStartCenter = this.center.clone()
-      if (
-        (this.object instanceof Cesium.Model ||
-          this.object instanceof Cesium.Cesium3DTileset) &&
-        this.object.modelMatrix
-      ) {
-        this._initialModelMatrix = this.object.modelMatrix.clone()
-      } else {
-        this._initialModelMatrix = Cesium.Matrix4.IDENTITY.clone()
-      }
-
-      const axisName = id.axis
-      const enuMatrix = Cesium.Transforms.eastNorthUpToFixedFrame(this.center)
-      let normal = new Cesium.Cartesian3()
-
-      if (this._mode === "translate") {
-        if (axisName === "XY")
-          Cesium.Matrix4.getColumn(enuMatrix, 2, normal as any)
-        else if (axisName === "YZ")
-          Cesium.Matrix4.getColumn(enuMatrix, 0, normal as any)
-        else if (axisName === "ZX")
-          Cesium.Matrix4.getColumn(enuMatrix, 1, normal as any)
-        else normal = this.viewer.scene.camera.direction
-      } else if (this._mode === "scale" || axisName === "CENTER") {
-        normal = this.viewer.scene.camera.direction
-      } else if (this._mode === "rotate") {
-        if (axisName === "X")
-          Cesium.Matrix4.getColumn(enuMatrix, 0, normal as any)
-        if (axisName === "Y")
-          Cesium.Matrix4.getColumn(enuMatrix, 1, normal as any)
-        if (axisName === "Z")
-          Cesium.Matrix4.getColumn(enuMatrix, 2, normal as any)
-      } else {
-        if (axisName === "X")
-          Cesium.Matrix4.getColumn(enuMatrix, 0, normal as any)
-        if (axisName === "Y")
-          Cesium.Matrix4.getColumn(enuMatrix, 1, normal as any)
-        if (axisName === "Z")
-          Cesium.Matrix4.getColumn(enuMatrix, 2, normal as any)
-      }
+  /**
+   * 按当前屏幕大小放置旋转反馈：扇形跟随中心点，朝向保持拖拽开始时的坐标系
+   */
+  private updateRotateFeedbackMatrix(baseScale: number) {
+    if (!this.center || (!this._sweepPrimitive && !this._angleLabels)) return
+
+    const scratch = this._scratch
+    // 使用独立的临时矩阵，避免覆盖 update 中仍在使用的 frameMatrix
+    const rotation = Cesium.Matrix4.getMatrix3(
+      this._dragFrame,
+      scratch.feedbackRotation
+    )
+    const matrix = Cesium.Matrix4.fromRotationTranslation(
+      rotation,
+      this.center,
+      scratch.feedbackFrame
+    )
+    Cesium.Matrix4.multiplyByUniformScale(matrix, baseScale, matrix)
 
-      Cesium.Cartesian3.normalize(normal, normal)
-      this._dragPlane = Cesium.Plane.fromPointNormal(this.center, normal)
+    if (this._sweepPrimitive) {
+      Cesium.Matrix4.clone(matrix, this._sweepPrimitive.modelMatrix)
+    }
+    if (this._angleLabels && this._angleLabels.length > 0) {
+      // 标签放在扫过扇形的末端之外
+      const position = Cesium.Cartesian3.multiplyByScalar(
+        this._sweepEnd,
+        1.25,
+        scratch.vector
+      )
+      this._angleLabels.get(0).position = Cesium.Matrix4.multiplyByPoint(
+        matrix,
+        position,
+        position
+      )
+    }
+    this.applySweepAngle()
+  }
 
-      const ray = this.viewer.scene.camera.getPickRay(position)
-      if (ray) {
-        const intersect = Cesium.IntersectionTests.rayPlane(
-          ray,
-          this._dragPlane
-        )
-        if (intersect) {
-          this._dragStartPoint = intersect
-          this._dragVectorStart = Cesium.Cartesian3.subtract(
-            intersect,
-            this.center,
-            new Cesium.Cartesian3()
-          )
-          Cesium.Cartesian3.normalize(
-            this._dragVectorStart,
-            this._dragVectorStart
-          )
-        }
-      }
+  /**
+   * 移除旋转拖拽的反馈图元
+   */
+  private clearRotateFeedback() {
+    if (this._sweepPrimitive) {
+      this._primitives.remove(this._sweepPrimitive)
+      this._sweepPrimitive = undefined
+    }
+    if (this._angleLabels) {
+      this._primitives.remove(this._angleLabels)
+      this._angleLabels = undefined
     }
   }
 
-  private handleUp() {
-    if (this._isDragging) {
-      this._isDragging = false
-      this.viewer.scene.screenSpaceCameraController.enableRotate = true
-      this.viewer.scene.screenSpaceCameraController.enableTranslate = true
-      this._activeScale = new Cesium.Cartesian3(1, 1, 1)
-
-      if (this._edgeDetectionStage) this._edgeDetectionStage.selected = []
+  private setRotateMeasurement(angle: number) {
+    this._measurement = {
+      mode: "rotate",
+      id: this._dragId!,
+      rotation: Cesium.Math.toDegrees(angle),
     }
   }
 
-  // --- 业务计算逻辑 ---
-
-  private handleDrag(position: Cesium.Cartesian2) {
-    if (!this._dragPlane || !this.center) return
-    const ray = this.viewer.scene.camera.getPickRay(position)
-    if (!ray) return
-    const newPoint = Cesium.IntersectionTests.rayPlane(ray, this._dragPlane)
-    if (!newPoint) return
+  /**
+   * 默认的测量文本：平移为各轴与总位移（米），旋转为带符号的角度，缩放为各轴倍率
+   */
+  private formatMeasurement(measurement: DragMeasurement) {
+    const signed = (value: number, digits: number) =>
+      `${value > 0 ? "+" : ""}${value.toFixed(digits)}`
+
+    const { translation, rotation, scale } = measurement
+    if (translation) {
+      return [
+        `ΔX ${signed(translation.x, 2)} m`,
+        `ΔY ${signed(translation.y, 2)} m`,
+        `ΔZ ${signed(translation.z, 2)} m`,
+        `|Δ| ${translation.distance.toFixed(2)} m`,
+      ].join("\n")
+    }
+    if (rotation !== undefined) return `${signed(rotation, 1)}°`
+    if (scale) {
+      if (scale.x === scale.y && scale.y === scale.z) {
+        return `×${scale.x.toFixed(2)}`
+      }
+      return [
+        `X ×${scale.x.toFixed(2)}`,
+        `Y ×${scale.y.toFixed(2)}`,
+        `Z ×${scale.z.toFixed(2)}`,
+      ].join("\n")
+    }
+    return ""
+  }
 
-    if (this._mode === "translate") this.updateTranslate(newPoint)
-    if (this._mode === "rotate") this.updateRotate(newPoint)
-    if (this._mode === "scale") this.updateScale(newPoint)
+  /**
+   * 根据当前拖拽的测量值刷新 Gizmo 旁的标签，formatter 返回空字符串时隐藏
+   */
+  private updateMeasurementLabel() {
+    const options = this.measurement
+    if (!options.show || !this._measurement || !this.center) {
+      this.clearMeasurement()
+      return
+    }
+    const text = options.formatter
+      ? options.formatter(this._measurement)
+      : this.formatMeasurement(this._measurement)
 
-    this.onUpdate && this.onUpdate(this.getTransformState())
+    if (!this._measurementLabels) {
+      this._measurementLabels = this._primitives.add(
+        new Cesium.LabelCollection()
+      )
+    }
+    const labels = this._measurementLabels!
+    const label =
+      labels.length > 0
+        ? labels.get(0)
+        : labels.add({
+            position: this.center.clone(),
+            style: Cesium.LabelStyle.FILL,
+            showBackground: true,
+            horizontalOrigin: Cesium.HorizontalOrigin.LEFT,
+            verticalOrigin: Cesium.VerticalOrigin.TOP,
+            disableDepthTestDistance: Number.POSITIVE_INFINITY,
+          })
+    label.show = text.length > 0
+    label.text = text
+    label.position = this.center
+    if (options.font) label.font = options.font
+    if (options.fillColor) label.fillColor = options.fillColor
+    if (options.backgroundColor) {
+      label.backgroundColor = options.backgroundColor
+    }
+    if (options.pixelOffset) label.pixelOffset = options.pixelOffset
   }
 
-  private updateTranslate(newPoint: Cesium.Cartesian3) {
-    const moveVector = Cesium.Cartesian3.subtract(
-      newPoint,
-      this._dragStartPoint,
-      new Cesium.Cartesian3()
-    )
-    const enuMatrix = Cesium.Transforms.eastNorthUpToFixedFrame(
-      this._dragStartCenter
-    )
-    let offset = new Cesium.Cartesian3()
-    const axisName = this._dragAxisName
-
-    if (axisName.includes("PLANE")) {
-      offset = moveVector
-    } else {
-      let axisVector = new Cesium.Cartesian3()
-      const axis = axisName.split("_")[1]
-      if (axis === "X")
-        Cesium.Matrix4.getColumn(enuMatrix, 0, axisVector as any)
-      if (axis === "Y")
-        Cesium.Matrix4.getColumn(enuMatrix, 1, axisVector as any)
-      if (axis === "Z")
-        Cesium.Matrix4.getColumn(enuMatrix, 2, axisVector as any)
-      Cesium.Cartesian3.normalize(axisVector, axisVector)
+  /**
+   * 移除测量标签
+   */
+  private clearMeasurement() {
+    this._measurement = null
+    if (this._measurementLabels) {
+      this._primitives.remove(this._measurementLabels)
+      this._measurementLabels = undefined
+    }
+  }
 
-      const scalar = Cesium.Cartesian3.dot(moveVector, axisVector)
-      offset = Cesium.Cartesian3.multiplyByScalar(
-        axisVector,
-        scalar,
-        new Cesium.Cartesian3()
+  /**
+   * 创建起始姿态的残影：各对象包围盒线框，以及起始枢轴点到当前枢轴点的虚线
+   * 包围盒在拖拽开始时计算，拖拽过程中保持不动
+   */
+  private createGhost() {
+    this.clearGhost()
+    const color = this._style.neutralColor.withAlpha(this._style.ghostAlpha)
+
+    const instances = this.objects
+      .map((object) => this.getObjectBox(object))
+      .filter((box): box is Cesium.OrientedBoundingBox => !!box)
+      .map(
+        (box) =>
+          new Cesium.GeometryInstance({
+            geometry: Cesium.BoxOutlineGeometry.fromDimensions({
+              dimensions: new Cesium.Cartesian3(2, 2, 2),
+            }),
+            modelMatrix: Cesium.Matrix4.fromRotationTranslation(
+              box.halfAxes,
+              box.center
+            ),
+            attributes: {
+              color: Cesium.ColorGeometryInstanceAttribute.fromColor(color),
+            },
+          })
       )
-    }
 
-    const newCenter = Cesium.Cartesian3.add(
-      this._dragStartCenter,
-      offset,
-      new Cesium.Cartesian3()
-    )
-    this.center = newCenter.clone()
-    const translation = Cesium.Cartesian3.subtract(
-      newCenter,
-      this._dragStartCenter,
-      new Cesium.Cartesian3()
+    this._ghostPrimitives = this._primitives.add(
+      new Cesium.PrimitiveCollection()
     )
-    const m = Cesium.Matrix4.fromTranslation(translation)
-
-    if (
-      this.object instanceof Cesium.Cesium3DTileset ||
-      this.object instanceof Cesium.Model
-    ) {
-      Cesium.Matrix4.multiply(
-        m,
-        this._initialModelMatrix,
-        this.object.modelMatrix
+    if (instances.length > 0) {
+      this._ghostPrimitives!.add(
+        new Cesium.Primitive({
+          geometryInstances: instances,
+          appearance: this.getAppearance(color, false),
+          asynchronous: false,
+        })
       )
     }
-  }
 
-  private updateRotate(newPoint: Cesium.Cartesian3) {
-    const currentVector = Cesium.Cartesian3.subtract(
-      newPoint,
-      this.center!,
-      new Cesium.Cartesian3()
+    const polylines = this._ghostPrimitives!.add(
+      new Cesium.PolylineCollection()
     )
-    Cesium.Cartesian3.normalize(currentVector, currentVector)
+    this._ghostLine = polylines.add({
+      positions: [this._dragStartCenter, this._dragStartCenter],
+      width: 2,
+      material: Cesium.Material.fromType("PolylineDash", {
+        color,
+        dashLength: 12,
+      }),
+    })
+  }
 
-    const dot = Cesium.Cartesian3.dot(this._dragVectorStart, currentVector)
-    let angle = Math.acos(Cesium.Math.clamp(dot, -1.0, 1.0))
-    if (angle === 0) return
+  /**
+   * 获取对象当前的有向包围盒
+   * 3DTileset 使用根节点的有向包围盒，Model 使用几何体的有向包围盒
+   * 均不可用时退化为沿自身坐标轴、外接包围球的立方体
+   */
+  private getObjectBox(object: TransformObject) {
+    if (object instanceof Cesium.Cesium3DTileset) {
+      // @ts-ignore 根节点包围体未在类型声明中公开
+      const volume = object.root?.boundingVolume?.boundingVolume
+      if (volume instanceof Cesium.OrientedBoundingBox) return volume.clone()
+    } else {
+      const box = this.getModelBox(object)
+      if (box) return box
+    }
 
-    const cross = Cesium.Cartesian3.cross(
-      this._dragVectorStart,
-      currentVector,
-      new Cesium.Cartesian3()
+    const sphere = object.boundingSphere
+    if (!sphere || sphere.radius <= 0) return undefined
+    const rotation =
+      this.decomposeMatrix(this.getObjectMatrix(object))?.rotation ??
+      Cesium.Matrix3.IDENTITY
+    return new Cesium.OrientedBoundingBox(
+      sphere.center,
+      Cesium.Matrix3.multiplyByUniformScale(
+        rotation,
+        sphere.radius,
+        new Cesium.Matrix3()
+      )
     )
-    const enuMatrix = Cesium.Transforms.eastNorthUpToFixedFrame(this.center!)
-    let axisVector = new Cesium.Cartesian3()
-    const axis = this._dragAxisName.split("_")[1]
-
-    if (axis === "X") Cesium.Matrix4.getColumn(enuMatrix, 0, axisVector as any)
-    if (axis === "Y") Cesium.Matrix4.getColumn(enuMatrix, 1, axisVector as any)
-    if (axis === "Z") Cesium.Matrix4.getColumn(enuMatrix, 2, axisVector as any)
-    Cesium.Cartesian3.normalize(axisVector, axisVector)
-
-    const sign = Cesium.Cartesian3.dot(cross, axisVector)
-    if (sign < 0) angle = -angle
+  }
 
-    const quaternion = Cesium.Quaternion.fromAxisAngle(axisVector, angle)
-    const rotationMatrix = Cesium.Matrix4.fromRotationTranslation(
-      Cesium.Matrix3.fromQuaternion(quaternion)
-    )
-    this.applyTransform(rotationMatrix)
+  /**
+   * 移除起始姿态的残影
+   */
+  private clearGhost() {
+    if (this._ghostPrimitives) {
+      this._primitives.remove(this._ghostPrimitives)
+      this._ghostPrimitives = undefined
+    }
+    this._ghostLine = undefined
   }
 
   private updateScale(newPoint: Cesium.Cartesian3) {
@@ -1599,7 +4643,7 @@ export class TransformGizmo {
       this._dragStartPoint,
       new Cesium.Cartesian3()
     )
-    const enuMatrix = Cesium.Transforms.eastNorthUpToFixedFrame(this.center!)
+    const frameMatrix = this._dragFrame
 
     const pixelSize = this.viewer.camera.getPixelSize(
       new Cesium.BoundingSphere(this.center, 0),
@@ -1613,7 +4657,10 @@ export class TransformGizmo {
     if (this._dragAxisName === "CENTER") {
       const cameraUp = this.viewer.scene.camera.up
       const dragDist = Cesium.Cartesian3.dot(moveVector, cameraUp)
-      scaleFactor = Math.max(0.01, 1.0 + dragDist * sensitivity * 2.0)
+      scaleFactor = Math.max(
+        0.01,
+        this.snapValue(1.0 + dragDist * sensitivity * 2.0, this.snap.scale)
+      )
       this._activeScale.x = scaleFactor
       this._activeScale.y = scaleFactor
       this._activeScale.z = scaleFactor
@@ -1622,104 +4669,542 @@ export class TransformGizmo {
       )
       this.applyTransform(scaleMatrix)
     } else {
-      let axisVector = new Cesium.Cartesian3()
+      // 轴向手柄沿该轴拖拽；平面手柄 (如 XY) 沿两轴的对角线拖拽，两轴等比缩放
       const axis = this._dragAxisName.split("_")[1]
-      if (axis === "X")
-        Cesium.Matrix4.getColumn(enuMatrix, 0, axisVector as any)
-      if (axis === "Y")
-        Cesium.Matrix4.getColumn(enuMatrix, 1, axisVector as any)
-      if (axis === "Z")
-        Cesium.Matrix4.getColumn(enuMatrix, 2, axisVector as any)
-      Cesium.Cartesian3.normalize(axisVector, axisVector)
+      const axisVector = this.getFrameAxis(frameMatrix, axis)
+      if (!axisVector) return
 
       const dragDist = Cesium.Cartesian3.dot(moveVector, axisVector)
-      scaleFactor = Math.max(0.01, 1.0 + dragDist * sensitivity)
+      scaleFactor = Math.max(
+        0.01,
+        this.snapValue(1.0 + dragDist * sensitivity, this.snap.scale)
+      )
 
-      if (axis === "X") this._activeScale.x = scaleFactor
-      if (axis === "Y") this._activeScale.y = scaleFactor
-      if (axis === "Z") this._activeScale.z = scaleFactor
+      if (axis.includes("X")) this._activeScale.x = scaleFactor
+      if (axis.includes("Y")) this._activeScale.y = scaleFactor
+      if (axis.includes("Z")) this._activeScale.z = scaleFactor
 
-      const rotationR = Cesium.Matrix4.getMatrix3(
-        enuMatrix,
-        new Cesium.Matrix3()
-      )
       const scaleVec = new Cesium.Cartesian3(1, 1, 1)
-      if (axis === "X") scaleVec.x = scaleFactor
-      if (axis === "Y") scaleVec.y = scaleFactor
-      if (axis === "Z") scaleVec.z = scaleFactor
+      if (axis.includes("X")) scaleVec.x = scaleFactor
+      if (axis.includes("Y")) scaleVec.y = scaleFactor
+      if (axis.includes("Z")) scaleVec.z = scaleFactor
+      this.applyLocalScale(scaleVec)
+    }
 
-      const localScale = Cesium.Matrix3.fromScale(scaleVec)
-      const rotationR_T = Cesium.Matrix3.transpose(
-        rotationR,
-        new Cesium.Matrix3()
-      )
-      const temp = Cesium.Matrix3.multiply(
-        localScale,
-        rotationR_T,
-        new Cesium.Matrix3()
-      )
-      const orientedScale = Cesium.Matrix3.multiply(
-        rotationR,
-        temp,
-        new Cesium.Matrix3()
-      )
-      const scaleMatrix = Cesium.Matrix4.fromRotationTranslation(orientedScale)
-      this.applyTransform(scaleMatrix)
+    this._measurement = {
+      mode: "scale",
+      id: this._dragId!,
+      scale: {
+        x: this._activeScale.x,
+        y: this._activeScale.y,
+        z: this._activeScale.z,
+      },
     }
   }
 
-  private applyTransform(transformMatrix: Cesium.Matrix4) {
+  /**
+   * 以枢轴点沿各对象自身坐标轴缩放，作用于每个绑定对象的初始模型矩阵
+   * 对初始矩阵做 TRS 分解后直接修改缩放分量，旋转保持不变，不会产生剪切
+   * @param factors 各轴的缩放倍数
+   */
+  private applyLocalScale(factors: Cesium.Cartesian3) {
     if (!this.center) return
-    const toOrigin = Cesium.Matrix4.fromTranslation(
-      Cesium.Cartesian3.negate(this.center, new Cesium.Cartesian3())
+    const individual =
+      this._groupPivot === "individual" && this.objects.length > 1
+    const previous = this.objects.map((object) => object.modelMatrix.clone())
+
+    this.objects.forEach((object, index) => {
+      const baseMatrix = this._initialModelMatrices[index]
+      if (!baseMatrix) return
+      const pivot = individual ? this._initialPivots[index] : this.center!
+      this.scaleInObjectFrame(object, baseMatrix, pivot, factors)
+    })
+    this.enforceConstraints(previous)
+  }
+
+  /**
+   * 对 TRS 分解后的矩阵在对象坐标系下绕枢轴点缩放，并写回对象
+   * @param object 目标对象
+   * @param modelMatrix 作为基准的 modelMatrix
+   * @param pivot 缩放枢轴点
+   * @param factors 各轴的缩放倍数
+   */
+  private scaleInObjectFrame(
+    object: TransformObject,
+    modelMatrix: Cesium.Matrix4,
+    pivot: Cesium.Cartesian3,
+    factors: Cesium.Cartesian3
+  ) {
+    const components = this.decomposeMatrix(
+      this.getObjectMatrix(object, modelMatrix)
     )
-    const toCenter = Cesium.Matrix4.fromTranslation(this.center)
-    let m = Cesium.Matrix4.multiply(
-      transformMatrix,
-      toOrigin,
-      new Cesium.Matrix4()
+    if (!components) return
+    const { translation, rotation, scale } = components
+
+    // 原点相对枢轴点的偏移同样在对象坐标系下缩放：p + R * F * R^T * (t - p)
+    const offset = Cesium.Cartesian3.subtract(
+      translation,
+      pivot,
+      new Cesium.Cartesian3()
     )
-    m = Cesium.Matrix4.multiply(toCenter, m, m)
-    if (
-      this.object instanceof Cesium.Cesium3DTileset ||
-      this.object instanceof Cesium.Model
-    ) {
-      Cesium.Matrix4.multiply(
-        m,
-        this._initialModelMatrix,
-        this.object.modelMatrix
+    const inverseRotation = Cesium.Matrix3.transpose(
+      rotation,
+      new Cesium.Matrix3()
+    )
+    Cesium.Matrix3.multiplyByVector(inverseRotation, offset, offset)
+    Cesium.Cartesian3.multiplyComponents(offset, factors, offset)
+    Cesium.Matrix3.multiplyByVector(rotation, offset, offset)
+    Cesium.Cartesian3.add(pivot, offset, translation)
+    Cesium.Cartesian3.multiplyComponents(scale, factors, scale)
+
+    this.setObjectMatrix(object, this.composeMatrix(components))
+  }
+
+  /**
+   * 以枢轴点施加世界坐标系下的变换，作用于每个绑定对象的初始模型矩阵
+   * 枢轴点默认为 center，groupPivot 为 individual 时为各对象自身的中心
+   * @param transformMatrix 变换矩阵
+   */
+  private applyTransform(transformMatrix: Cesium.Matrix4) {
+    if (!this.center) return
+    const individual =
+      this._groupPivot === "individual" && this.objects.length > 1
+    const previous = this.objects.map((object) => object.modelMatrix.clone())
+
+    this.objects.forEach((object, index) => {
+      const baseMatrix = this._initialModelMatrices[index]
+      if (!baseMatrix) return
+      const pivot = individual ? this._initialPivots[index] : this.center!
+
+      const toOrigin = Cesium.Matrix4.fromTranslation(
+        Cesium.Cartesian3.negate(pivot, new Cesium.Cartesian3())
       )
-    }
+      const toCenter = Cesium.Matrix4.fromTranslation(pivot)
+      let m = Cesium.Matrix4.multiply(
+        transformMatrix,
+        toOrigin,
+        new Cesium.Matrix4()
+      )
+      m = Cesium.Matrix4.multiply(toCenter, m, m)
+      Cesium.Matrix4.multiply(m, baseMatrix, object.modelMatrix)
+    })
+    this.enforceConstraints(previous)
   }
 }
 
 /**
  * 变换模式枚举
+ * - universal: 万能模式，同时显示平移箭头与平面、旋转圆环和缩放方块
  */
-export type TransformMode = "translate" | "rotate" | "scale"
+export type TransformMode = "translate" | "rotate" | "scale" | "universal"
 
 /**
  * 初始化参数接口
  * @interface Options
  * @property {Cesium.Viewer} viewer - Cesium Viewer 实例
  * @property {Cesium.Model | Cesium.Cesium3DTileset} [object] - 需要进行变换操作的模型或3DTileset对象
- * @property {number} [axisWidth] - 轴线的宽度，默认为 5
- * @property {TransformMode} [mode] - 初始变换模式 ('translate', 'rotate', 'scale')
+ * @property {number} [axisWidth] - 轴线的宽度，默认为 5（等同于 style.axisWidth）
+ * @property {GizmoStyle} [style] - 外观样式
+ * @property {TransformMode} [mode] - 初始变换模式 ('translate', 'rotate', 'scale', 'universal')
+ * @property {PivotMode} [pivot] - 枢轴点模式 ('center', 'origin', 'bottom', 'custom')，默认为 'center'
+ * @property {GroupPivot} [groupPivot] - 多选时的公共枢轴 ('center', 'active', 'individual')，默认为 'center'
+ * @property {GizmoSpace} [space] - 手柄坐标系 ('enu', 'local')，默认为 'enu'；缩放手柄始终沿对象自身坐标轴
+ * @property {TranslateMode} [translateMode] - 平移方式 ('linear', 'rhumb')，默认为 'linear'
+ * @property {RotationStyle} [rotationStyle] - 旋转手柄样式 ('quadrant', 'ring')，默认为 'quadrant'
+ * @property {SnapOptions} [snap] - 吸附配置
+ * @property {KeyboardOptions} [keyboard] - 键盘快捷键配置
+ * @property {MeasurementOptions} [measurement] - 拖拽测量标签配置
+ * @property {TransformConstraints} [constraints] - 变换约束
+ * @property {OutlineOptions} [outline] - 选中描边配置
+ * @property {number} [historyLimit] - 历史记录最大条数，默认为 100
+ * @property {boolean} [cancelOnEscape] - 拖拽中按 Esc 取消拖拽，默认为 true
+ * @property {boolean} [cancelOnRightClick] - 拖拽中点击右键取消拖拽，默认为 true
+ * @property {number} [coarseHitTolerance] - 触控、手写笔等粗略指针的拾取容差 (像素)，默认为 16
+ * @property {boolean} [followSurface] - 水平平移时让对象底部贴合地形或 3D Tiles 表面，默认为 false
+ * @property {SnapModifier} [depthModifier] - 拖拽中心点平移时按住该键改为沿视线方向移动，默认为 'ctrl'
+ * @property {boolean} [ghost] - 拖拽时显示起始姿态的包围盒线框与位移虚线，默认为 false
  * @property {(e: TransformState | null) => void} [onUpdate] - 变换状态更新时的回调函数
+ * @property {(e: HistoryState) => void} [onHistoryChange] - 历史记录变化时的回调函数
  */
 interface Options {
   viewer: Cesium.Viewer
   object?: Cesium.Model | Cesium.Cesium3DTileset
   axisWidth?: number
+  style?: GizmoStyle
   mode?: TransformMode
+  pivot?: PivotMode
+  groupPivot?: GroupPivot
+  space?: GizmoSpace
+  translateMode?: TranslateMode
+  rotationStyle?: RotationStyle
+  snap?: SnapOptions
+  keyboard?: KeyboardOptions
+  measurement?: MeasurementOptions
+  constraints?: TransformConstraints
+  outline?: OutlineOptions
+  historyLimit?: number
+  cancelOnEscape?: boolean
+  cancelOnRightClick?: boolean
+  coarseHitTolerance?: number
+  followSurface?: boolean
+  depthModifier?: SnapModifier
+  ghost?: boolean
   onUpdate?: (e: TransformState | null) => void
+  onHistoryChange?: (e: HistoryState) => void
+}
+
+/**
+ * 可锁定的轴向
+ */
+export type LockAxis = "X" | "Y" | "Z"
+
+/**
+ * 键盘快捷键配置
+ * @interface KeyboardOptions
+ * @property {boolean} [enabled] - 是否启用快捷键，默认为 false
+ * @property {number} [nudgeStep] - 方向键微调步长（米），默认为 0.1
+ */
+interface KeyboardOptions {
+  enabled?: boolean
+  nudgeStep?: number
+}
+
+/**
+ * 历史记录条目
+ */
+interface HistoryEntry {
+  objects: TransformObject[]
+  before: Cesium.Matrix4[]
+  after: Cesium.Matrix4[]
+  centerBefore: Cesium.Cartesian3
+  centerAfter: Cesium.Cartesian3
+}
+
+/**
+ * 历史记录状态
+ * @interface HistoryState
+ * @property {boolean} canUndo - 是否可以撤销
+ * @property {boolean} canRedo - 是否可以重做
+ */
+interface HistoryState {
+  canUndo: boolean
+  canRedo: boolean
+}
+
+/**
+ * 可变换对象
+ */
+type TransformObject = Cesium.Model | Cesium.Cesium3DTileset
+
+/**
+ * 某一模式下缓存的手柄图元与碰撞体
+ */
+interface GizmoHandles {
+  primitives: Cesium.PrimitiveCollection
+  axisPrimitives: { [key: string]: Cesium.Primitive }
+  colliders: GizmoCollider[]
+}
+
+/**
+ * 矩阵的 TRS 分解结果：M = T * R * S
+ */
+interface MatrixTRS {
+  /** 平移 */
+  translation: Cesium.Cartesian3
+  /** 正交旋转矩阵 */
+  rotation: Cesium.Matrix3
+  /** 各轴缩放 */
+  scale: Cesium.Cartesian3
+}
+
+/**
+ * 枢轴点模式
+ * - center: 包围球中心
+ * - origin: 模型原点
+ * - bottom: 包围体底部中心
+ * - custom: 自定义点
+ */
+export type PivotMode = "center" | "origin" | "bottom" | "custom"
+
+/**
+ * 多选时的公共枢轴
+ * - center: 合并包围球中心
+ * - active: 活动对象中心
+ * - individual: 各对象绕自身中心变换
+ */
+export type GroupPivot = "center" | "active" | "individual"
+
+/**
+ * 手柄坐标系
+ * - enu: 世界坐标系（当地东北天）
+ * - local: 对象自身坐标系
+ */
+export type GizmoSpace = "enu" | "local"
+
+/**
+ * 平移方式
+ * - linear: 沿拖拽开始时的切平面直线平移
+ * - rhumb: 沿椭球面上的恒向线 (航向不变，并非最短路径) 平移，保持椭球高度，并将姿态转换到新位置的东北天坐标系
+ */
+export type TranslateMode = "linear" | "rhumb"
+
+/**
+ * 旋转手柄样式
+ * - quadrant: 朝向相机的 90 度扇形
+ * - ring: 完整的 360 度圆环，拖拽时显示扫过的扇形与角度
+ */
+export type RotationStyle = "quadrant" | "ring"
+
+/**
+ * 吸附修饰键
+ */
+export type SnapModifier = "shift" | "ctrl" | "alt"
+
+/**
+ * 吸附配置
+ * @interface SnapOptions
+ * @property {boolean} [enabled] - 是否默认开启吸附，默认为 false
+ * @property {number} [translate] - 平移步长（米），默认为 1
+ * @property {number} [rotate] - 旋转步长（度），默认为 15
+ * @property {number} [scale] - 缩放步长（倍率），默认为 0.1
+ * @property {SnapModifier} [modifier] - 拖拽时按住该键临时反转吸附开关，默认为 'shift'
+ */
+interface SnapOptions {
+  enabled?: boolean
+  translate?: number
+  rotate?: number
+  scale?: number
+  modifier?: SnapModifier
+}
+
+/**
+ * 手柄外观样式，长度类参数以 axisLength 为单位 1
+ * @interface GizmoStyle
+ * @property {Object} [colors] - X/Y/Z 轴颜色，可只传部分轴
+ * @property {Cesium.Color} [neutralColor] - 中心点与视线外环的颜色，默认为白色
+ * @property {Cesium.Color} [highlightColor] - 悬停与拖拽时的高亮颜色，默认为黄色
+ * @property {number} [planeAlpha] - 平面手柄透明度，默认为 0.5
+ * @property {number} [fanAlpha] - 旋转扇形透明度，默认为 0.2
+ * @property {number} [sweepAlpha] - 旋转拖拽时扫过扇区的透明度，默认为 0.35
+ * @property {number} [ghostAlpha] - 起始姿态残影的透明度，默认为 0.6
+ * @property {number} [axisLength] - 手柄在屏幕上的长度（像素），默认为 120
+ * @property {number} [axisWidth] - 轴线宽度（像素），默认为 5
+ * @property {number} [ringWidth] - 旋转圆环线宽（像素），默认为 3
+ * @property {number} [centerRadius] - 中心小球半径，默认为 0.05
+ * @property {number} [arrowLength] - 平移箭头长度，默认为 0.15
+ * @property {number} [arrowRadius] - 平移箭头底面半径，默认为 0.04
+ * @property {number} [boxSize] - 缩放方块边长，默认为 0.1
+ */
+interface GizmoStyle {
+  colors?: Partial<Record<LockAxis, Cesium.Color>>
+  neutralColor?: Cesium.Color
+  highlightColor?: Cesium.Color
+  planeAlpha?: number
+  fanAlpha?: number
+  sweepAlpha?: number
+  ghostAlpha?: number
+  axisLength?: number
+  axisWidth?: number
+  ringWidth?: number
+  centerRadius?: number
+  arrowLength?: number
+  arrowRadius?: number
+  boxSize?: number
+}
+
+/**
+ * 补全默认值后的外观样式
+ */
+type ResolvedGizmoStyle = Required<Omit<GizmoStyle, "colors">> & {
+  colors: Record<LockAxis, Cesium.Color>
+}
+
+/**
+ * 描边显示时机
+ * - bound: 绑定对象后始终显示
+ * - hover: 鼠标悬停在手柄上时显示
+ * - drag: 拖拽过程中显示
+ */
+export type OutlineTrigger = "bound" | "hover" | "drag"
+
+/**
+ * 选中描边配置
+ * @interface OutlineOptions
+ * @property {boolean} [enabled] - 是否启用描边，默认为 true
+ * @property {Cesium.Color} [color] - 内置描边颜色，默认为黄色
+ * @property {number} [thickness] - 内置描边粗细（边缘检测的 length），默认为 0.01
+ * @property {OutlineTrigger[]} [showOn] - 显示时机，满足任一即显示，默认为 ['bound']
+ * @property {Function} [adapter] - 自定义选中适配器，提供后不再使用内置描边；
+ *   描边对象变化时以需要描边的对象列表调用，空数组表示取消描边
+ */
+interface OutlineOptions {
+  enabled?: boolean
+  color?: Cesium.Color
+  thickness?: number
+  showOn?: OutlineTrigger[]
+  adapter?: (objects: TransformObject[]) => void
+}
+
+/**
+ * 拖拽测量标签配置
+ * @interface MeasurementOptions
+ * @property {boolean} [show] - 拖拽时是否显示测量标签，默认为 true
+ * @property {string} [font] - 字体，默认为 'bold 13px sans-serif'
+ * @property {Cesium.Color} [fillColor] - 文字颜色，默认为白色
+ * @property {Cesium.Color} [backgroundColor] - 背景颜色，默认为半透明深灰
+ * @property {Cesium.Cartesian2} [pixelOffset] - 相对枢轴点的屏幕偏移（像素），默认为 (24, 24)
+ * @property {Function} [formatter] - 自定义标签文本，返回空字符串时隐藏标签
+ */
+interface MeasurementOptions {
+  show?: boolean
+  font?: string
+  fillColor?: Cesium.Color
+  backgroundColor?: Cesium.Color
+  pixelOffset?: Cesium.Cartesian2
+  formatter?: (measurement: DragMeasurement) => string
+}
+
+/**
+ * 拖拽过程中的测量值，相对拖拽开始时的状态
+ * @interface DragMeasurement
+ * @property {TransformMode} mode - 变换类型：translate、rotate 或 scale
+ * @property {GizmoId} id - 正在拖拽的手柄
+ * @property {Object} [translation] - 平移量（米），沿拖拽开始时的 Gizmo 坐标轴分解
+ * @property {number} [rotation] - 带符号的旋转角度（度）
+ * @property {ScaleValue} [scale] - 各轴缩放倍率
+ */
+interface DragMeasurement {
+  mode: Exclude<TransformMode, "universal">
+  id: GizmoId
+  translation?: {
+    x: number
+    y: number
+    z: number
+    distance: number
+  }
+  rotation?: number
+  scale?: ScaleValue
+}
+
+/**
+ * 经纬度坐标
+ * @interface GeodeticPosition
+ * @property {number} longitude - 经度（度）
+ * @property {number} latitude - 纬度（度）
+ * @property {number} [height] - 椭球高（米），省略时保持当前高度
+ */
+interface GeodeticPosition {
+  longitude: number
+  latitude: number
+  height?: number
+}
+
+/**
+ * 变换约束
+ * @interface TransformConstraints
+ * @property {LockAxis[]} [lockTranslate] - 禁止平移的 Gizmo 坐标轴
+ * @property {LockAxis[]} [lockRotate] - 禁止旋转的 Gizmo 坐标轴，如 ['X', 'Y'] 只允许调整航向
+ * @property {LockAxis[]} [lockScale] - 禁止缩放的对象自身坐标轴
+ * @property {number} [minHeight] - 约束点最低椭球高度（米）
+ * @property {number} [maxHeight] - 约束点最高椭球高度（米）
+ * @property {number | Partial<ScaleValue>} [minScale] - 最小缩放比例，可按轴分别设置
+ * @property {number | Partial<ScaleValue>} [maxScale] - 最大缩放比例，可按轴分别设置
+ * @property {Cesium.Rectangle | GeodeticPosition[]} [boundary] - 约束点必须位于其中的范围：矩形（弧度）或多边形顶点（度）
+ */
+interface TransformConstraints {
+  lockTranslate?: LockAxis[]
+  lockRotate?: LockAxis[]
+  lockScale?: LockAxis[]
+  minHeight?: number
+  maxHeight?: number
+  minScale?: number | Partial<ScaleValue>
+  maxScale?: number | Partial<ScaleValue>
+  boundary?: Cesium.Rectangle | GeodeticPosition[]
+}
+
+/**
+ * 姿态角（度）
+ */
+interface HeadingPitchRollDegrees {
+  heading: number
+  pitch: number
+  roll: number
+}
+
+/**
+ * 各轴缩放比例
+ */
+interface ScaleValue {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * setTransformState 参数
+ * @interface TransformStateInput
+ * @property {GeodeticPosition | TransformState["position"]} [position] - 枢轴点的经纬度坐标，或 getTransformState 返回的地心坐标
+ * @property {HeadingPitchRollDegrees} [rotation] - 相对枢轴点处当地东北天坐标系的姿态角（度）
+ * @property {ScaleValue} [scale] - 各轴缩放比例
+ */
+interface TransformStateInput {
+  position?: GeodeticPosition | TransformState["position"]
+  rotation?: HeadingPitchRollDegrees
+  scale?: ScaleValue
+}
+
+/**
+ * Gizmo 事件参数
+ * @interface GizmoEvent
+ * @property {GizmoId | null} id - 相关手柄（拖拽/悬停事件），其他事件为 null
+ * @property {TransformMode} mode - 当前变换模式
+ * @property {Cesium.Model | Cesium.Cesium3DTileset} [object] - 活动对象
+ * @property {TransformObject[]} objects - 所有绑定对象
+ * @property {Cesium.Matrix4} [startMatrix] - 拖拽开始时的模型矩阵，仅拖拽事件提供
+ * @property {Cesium.Matrix4} [currentMatrix] - 当前模型矩阵
+ */
+interface GizmoEvent {
+  id: GizmoId | null
+  mode: TransformMode
+  object: Cesium.Model | Cesium.Cesium3DTileset | undefined
+  objects: TransformObject[]
+  startMatrix: Cesium.Matrix4 | undefined
+  currentMatrix: Cesium.Matrix4 | undefined
+}
+
+/**
+ * 模式切换事件参数
+ */
+interface GizmoModeChangeEvent extends GizmoEvent {
+  previousMode: TransformMode
+}
+
+/**
+ * 事件类型与参数映射
+ * - dragStart / drag / dragEnd: 拖拽开始、拖拽中、拖拽结束
+ * - dragCancel: 拖拽被取消，对象已恢复到拖拽前的姿态
+ * - hoverChange: 悬停手柄变化
+ * - modeChange: 变换模式切换
+ * - bind / unbind: 绑定、解绑对象
+ * - history: 撤销/重做历史变化
+ */
+interface GizmoEventMap {
+  dragStart: GizmoEvent
+  drag: GizmoEvent
+  dragEnd: GizmoEvent
+  dragCancel: GizmoEvent
+  hoverChange: GizmoEvent
+  modeChange: GizmoModeChangeEvent
+  bind: GizmoEvent
+  unbind: GizmoEvent
+  history: HistoryState
 }
 
 /**
  * ID 结构
  */
 interface GizmoId {
-  axis: "X" | "Y" | "Z" | "XY" | "YZ" | "ZX" | "CENTER"
+  axis: "X" | "Y" | "Z" | "XY" | "YZ" | "ZX" | "CENTER" | "VIEW"
   type: TransformMode | "center"
   name: string
 }
@@ -1751,7 +5236,7 @@ interface GizmoCollider {
 /**
  * 变换状态数据结构
  * @interface TransformState
- * @property {Object} position - 位置坐标
+ * @property {Object} position - 枢轴点 (center) 的地心坐标
  * @property {number} position.x - X轴位置
  * @property {number} position.y - Y轴位置
  * @property {number} position.z - Z轴位置